@@ -2,32 +2,379 @@
  * Background service worker for All-Inclusive extension
  * Handles extension lifecycle and coordination between components
  */
+import { ScanResult, Severity, MessageType } from '../types';
+import { SEVERITY_ORDER, isRestrictedFrameUrl, isRestrictedUrl } from '../utils';
+import { addToHistory, getTabScanKey } from '../utils/history';
+import { mergeFrameResults } from '../utils/frames';
+import { applySuppressions, getSuppressionOrigin } from '../utils/suppressions';
+import { DEFAULT_SETTINGS, getShownViolations, normalizeSettings } from '../utils/settings';
+
+// Wait for late-rendered content (and SPA routes) to settle before scanning automatically
+const AUTO_SCAN_DELAY_MS = 1000;
+
+// Badge colors match the popup's severity tags
+const BADGE_COLORS: Record<Severity, { background: string; text: string }> = {
+  [Severity.CRITICAL]: { background: '#dc3545', text: '#ffffff' },
+  [Severity.SERIOUS]: { background: '#fd7e14', text: '#ffffff' },
+  [Severity.MODERATE]: { background: '#ffc107', text: '#333333' },
+  [Severity.MINOR]: { background: '#28a745', text: '#ffffff' },
+};
 
 // Listen for extension installation
 chrome.runtime.onInstalled.addListener((details) => {
   if (details.reason === 'install') {
     console.log('All-Inclusive extension installed');
-    
+
     // Set default settings
-    chrome.storage.local.set({
-      settings: {
-        autoScan: false,
-        showMinorIssues: true,
-        targetLevel: 'AA',
-      },
-    });
+    chrome.storage.local.set({ settings: DEFAULT_SETTINGS });
   }
 });
 
 // Handle messages from popup or content scripts
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   console.log('Background received message:', message);
-  
-  // Pass through messages or handle coordination logic here
-  // For now, content script directly responds to popup
-  
-  return true;
+
+  if (message.type === MessageType.SCAN_TAB) {
+    scanTab(message.tabId)
+      .then(async result => {
+        await updateBadge(message.tabId, result);
+        await saveToHistory(result);
+        await chrome.storage.session.set({ [getTabScanKey(message.tabId)]: result });
+        sendResponse(result);
+
+        // Keep an open side panel in sync with scans started from the popup
+        chrome.runtime.sendMessage({ type: MessageType.SCAN_UPDATE, tabId: message.tabId, data: result }).catch(() => {});
+      })
+      .catch(error => {
+        console.error('Scan failed:', error);
+        sendResponse({ error: error instanceof Error ? error.message : 'Unknown error occurred' });
+      });
+  }
+
+  if (message.type === MessageType.WATCH_START) {
+    startWatchingTab(message.tabId)
+      .then(() => sendResponse({ success: true }))
+      .catch(error => {
+        console.error('Failed to start live monitoring:', error);
+        sendResponse({ error: error instanceof Error ? error.message : 'Unknown error occurred' });
+      });
+  }
+
+  if (message.type === MessageType.WATCH_STOP) {
+    stopWatchingTab(message.tabId).then(() => sendResponse({ success: true }));
+  }
+
+  // Navigator spotlights go to the frame that owns the element, clearing the spotlight in every other frame
+  if (message.type === MessageType.SPOTLIGHT_ELEMENT && sender.tab?.id !== undefined) {
+    routeSpotlight(sender.tab.id, message.frameId, message.selector, message.elementRef)
+      .then(sendResponse)
+      .catch(error => {
+        console.warn('Failed to route spotlight:', error);
+        sendResponse({ found: false });
+      });
+  }
+
+  if (message.type === MessageType.CLEAR_SPOTLIGHT && sender.tab?.id !== undefined) {
+    chrome.tabs.sendMessage(sender.tab.id, { type: MessageType.CLEAR_SPOTLIGHT })
+      .then(() => sendResponse({ success: true }))
+      .catch(() => sendResponse({ success: false }));
+  }
+
+  if (message.type === MessageType.SCAN_UPDATE && sender.tab?.id !== undefined) {
+    handleLiveUpdate(sender.tab.id, sender.frameId || 0, message.data as ScanResult);
+    sendResponse({ success: true });
+  }
+
+  return true; // Keep message channel open for async response
+});
+
+// Keep watched tabs monitored across reloads and newly added frames
+chrome.webNavigation.onCompleted.addListener(async (details) => {
+  const restricted = details.frameId === 0 ? isRestrictedUrl(details.url) : isRestrictedFrameUrl(details.url);
+  if (!(await isTabWatched(details.tabId)) || restricted) return;
+
+  try {
+    await ensureContentScript(details.tabId, [details.frameId]);
+    await chrome.tabs.sendMessage(details.tabId, { type: MessageType.WATCH_START }, { frameId: details.frameId });
+  } catch (error) {
+    console.warn(`Could not resume live monitoring in frame ${details.frameId}:`, error);
+  }
+});
+
+// A new document in the top frame invalidates every frame's live results
+chrome.webNavigation.onCommitted.addListener((details) => {
+  if (details.frameId === 0) {
+    chrome.storage.session.remove(getLiveScanKey(details.tabId));
+  }
+});
+
+// Scan pages automatically after they finish loading, when enabled in the settings
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.status === 'complete') {
+    scheduleAutoScan(tabId);
+  }
+});
+
+// SPA route changes don't reload the content script, so tell it to rescan
+chrome.webNavigation.onHistoryStateUpdated.addListener(async (details) => {
+  if (details.frameId === 0) {
+    scheduleAutoScan(details.tabId);
+  }
+
+  if (!(await isTabWatched(details.tabId))) return;
+
+  chrome.tabs.sendMessage(details.tabId, { type: MessageType.SPA_NAVIGATION }, { frameId: details.frameId })
+    .catch(error => console.warn('Failed to notify content script of navigation:', error));
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  stopWatchingTab(tabId);
+  clearTimeout(autoScanTimers.get(tabId));
+  autoScanTimers.delete(tabId);
+  chrome.storage.session.remove(getTabScanKey(tabId));
 });
 
+const autoScanTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+/**
+ * Scan a tab once it has settled, if automatic scanning is on.
+ * Repeated loads and route changes within the delay only trigger one scan.
+ */
+function scheduleAutoScan(tabId: number) {
+  clearTimeout(autoScanTimers.get(tabId));
+  autoScanTimers.set(tabId, setTimeout(() => {
+    autoScanTimers.delete(tabId);
+    autoScanTab(tabId).catch(error => console.warn(`Automatic scan of tab ${tabId} failed:`, error));
+  }, AUTO_SCAN_DELAY_MS));
+}
+
+async function autoScanTab(tabId: number) {
+  const { settings } = await chrome.storage.local.get('settings');
+  if (!normalizeSettings(settings).autoScan) return;
+
+  // Live monitoring already keeps watched tabs up to date
+  if (await isTabWatched(tabId)) return;
+
+  const tab = await chrome.tabs.get(tabId);
+  if (!tab.url || isRestrictedUrl(tab.url)) return;
+
+  const result = await scanTab(tabId);
+  await updateBadge(tabId, result);
+  await saveToHistory(result);
+  await chrome.storage.session.set({ [getTabScanKey(tabId)]: result });
+
+  // The last scan outlives the session, so only replace it with the tab the user is looking at
+  if (tab.active) {
+    await chrome.storage.local.set({ lastScan: result });
+  }
+
+  // Let an open popup refresh; it's fine if nobody is listening
+  chrome.runtime.sendMessage({ type: MessageType.SCAN_UPDATE, tabId, data: result }).catch(() => {});
+}
+
+/**
+ * Spotlight an element in one frame of a tab, clearing any spotlight left in other frames
+ */
+async function routeSpotlight(tabId: number, frameId: number, selector: string, elementRef?: string): Promise<{ found: boolean }> {
+  const frames = await chrome.webNavigation.getAllFrames({ tabId }) || [];
+  await Promise.all(frames
+    .filter(frame => frame.frameId !== frameId)
+    .map(frame => chrome.tabs.sendMessage(tabId, { type: MessageType.CLEAR_SPOTLIGHT }, { frameId: frame.frameId }).catch(() => {})));
+
+  return chrome.tabs.sendMessage(tabId, { type: MessageType.SPOTLIGHT_ELEMENT, selector, elementRef }, { frameId });
+}
+
+/**
+ * Scan every frame of a tab and merge the results into a single ScanResult
+ */
+async function scanTab(tabId: number): Promise<ScanResult> {
+  const tab = await chrome.tabs.get(tabId);
+
+  // Check if the URL is a restricted page
+  if (tab.url && isRestrictedUrl(tab.url)) {
+    throw new Error('Cannot scan this page. Chrome extensions cannot access chrome://, chrome-extension://, or Chrome Web Store pages.');
+  }
+
+  const frames = await chrome.webNavigation.getAllFrames({ tabId }) || [];
+  const scannableFrames = frames.filter(frame => frame.frameId === 0 || !isRestrictedFrameUrl(frame.url));
+
+  await ensureContentScript(tabId, scannableFrames.map(frame => frame.frameId));
+
+  const frameResults = await Promise.all(scannableFrames.map(async frame => {
+    try {
+      const result: ScanResult = await chrome.tabs.sendMessage(tabId, { type: MessageType.SCAN_PAGE }, { frameId: frame.frameId });
+      return { frameId: frame.frameId, result };
+    } catch (error) {
+      // Frames can navigate away or refuse injection; skip them rather than failing the whole scan
+      console.warn(`Could not scan frame ${frame.frameId} (${frame.url}):`, error);
+      return null;
+    }
+  }));
+
+  const topResult = frameResults.find(entry => entry?.frameId === 0);
+  if (!topResult) {
+    throw new Error('Failed to scan the page. This page may not allow extensions.');
+  }
+
+  return mergeFrameResults(topResult.result.url, frameResults.filter(entry => entry !== null), frames);
+}
+
+/**
+ * Make sure the content script is running in each frame, injecting it where it is missing
+ */
+async function ensureContentScript(tabId: number, frameIds: number[]) {
+  const missingFrameIds: number[] = [];
+
+  await Promise.all(frameIds.map(async frameId => {
+    try {
+      await chrome.tabs.sendMessage(tabId, { type: 'PING' }, { frameId });
+    } catch (e) {
+      missingFrameIds.push(frameId);
+    }
+  }));
+
+  if (missingFrameIds.length === 0) {
+    return;
+  }
+
+  try {
+    await chrome.scripting.executeScript({
+      target: { tabId, frameIds: missingFrameIds },
+      files: ['content/index.js'],
+    });
+    await chrome.scripting.insertCSS({
+      target: { tabId, frameIds: missingFrameIds },
+      files: ['content/styles.css'],
+    });
+    // Wait a bit for the script to initialize
+    await new Promise(resolve => setTimeout(resolve, 100));
+  } catch (injectError) {
+    if (missingFrameIds.includes(0)) {
+      throw new Error('Failed to inject content script. This page may not allow extensions.');
+    }
+    console.warn('Failed to inject content script into some frames:', injectError);
+  }
+}
+
+/**
+ * Start live monitoring in every frame of a tab
+ */
+async function startWatchingTab(tabId: number) {
+  const tab = await chrome.tabs.get(tabId);
+  if (tab.url && isRestrictedUrl(tab.url)) {
+    throw new Error('Cannot monitor this page. Chrome extensions cannot access chrome://, chrome-extension://, or Chrome Web Store pages.');
+  }
+
+  const { watchedTabs = [] } = await chrome.storage.session.get('watchedTabs');
+  if (!watchedTabs.includes(tabId)) {
+    await chrome.storage.session.set({ watchedTabs: [...watchedTabs, tabId] });
+  }
+
+  const frames = await chrome.webNavigation.getAllFrames({ tabId }) || [];
+  const frameIds = frames.filter(frame => frame.frameId === 0 || !isRestrictedFrameUrl(frame.url)).map(frame => frame.frameId);
+  await ensureContentScript(tabId, frameIds);
+
+  await Promise.all(frameIds.map(frameId =>
+    chrome.tabs.sendMessage(tabId, { type: MessageType.WATCH_START }, { frameId })
+      .catch(error => console.warn(`Could not start live monitoring in frame ${frameId}:`, error))
+  ));
+}
+
+/**
+ * Stop live monitoring in a tab and forget its live results
+ */
+async function stopWatchingTab(tabId: number) {
+  const { watchedTabs = [] } = await chrome.storage.session.get('watchedTabs');
+  await chrome.storage.session.set({ watchedTabs: watchedTabs.filter((id: number) => id !== tabId) });
+  await chrome.storage.session.remove(getLiveScanKey(tabId));
+
+  try {
+    await chrome.tabs.sendMessage(tabId, { type: MessageType.WATCH_STOP });
+  } catch (e) {
+    // Tab is gone or has no content script; nothing to stop
+  }
+}
+
+async function isTabWatched(tabId: number): Promise<boolean> {
+  const { watchedTabs = [] } = await chrome.storage.session.get('watchedTabs');
+  return watchedTabs.includes(tabId);
+}
+
+function getLiveScanKey(tabId: number): string {
+  return `liveScan-${tabId}`;
+}
+
+// Serialize live updates so concurrent frames don't overwrite each other's results
+let liveUpdateQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Merge a streamed frame result into the tab's live scan and broadcast it
+ */
+function handleLiveUpdate(tabId: number, frameId: number, frameResult: ScanResult) {
+  liveUpdateQueue = liveUpdateQueue.then(async () => {
+    if (!(await isTabWatched(tabId))) return;
+
+    const key = getLiveScanKey(tabId);
+    const stored = await chrome.storage.session.get(key);
+    const liveResults: Record<number, ScanResult> = stored[key] || {};
+    liveResults[frameId] = frameResult;
+
+    // Forget frames that have since been removed from the page
+    const frames = await chrome.webNavigation.getAllFrames({ tabId }) || [];
+    Object.keys(liveResults).map(Number).forEach(id => {
+      if (!frames.some(frame => frame.frameId === id)) {
+        delete liveResults[id];
+      }
+    });
+
+    await chrome.storage.session.set({ [key]: liveResults });
+
+    const url = liveResults[0]?.url || frameResult.url;
+    const frameResults = Object.entries(liveResults).map(([id, result]) => ({ frameId: Number(id), result }));
+    const merged = mergeFrameResults(url, frameResults, frames);
+
+    await chrome.storage.local.set({ lastScan: merged });
+    await chrome.storage.session.set({ [getTabScanKey(tabId)]: merged });
+    await updateBadge(tabId, merged);
+
+    // Let an open popup refresh; it's fine if nobody is listening
+    chrome.runtime.sendMessage({ type: MessageType.SCAN_UPDATE, tabId, data: merged }).catch(() => {});
+  }).catch(error => console.error('Failed to process live scan update:', error));
+}
+
+/**
+ * Append a completed scan to the per-URL scan history
+ * Live monitoring updates aren't recorded, only explicit and automatic scans
+ */
+async function saveToHistory(result: ScanResult) {
+  try {
+    const { scanHistory = {} } = await chrome.storage.local.get('scanHistory');
+    await chrome.storage.local.set({ scanHistory: addToHistory(scanHistory, result) });
+  } catch (error) {
+    console.error('Failed to save scan history:', error);
+  }
+}
+
+/**
+ * Show the violation count on the toolbar badge for a tab, counting what the popup shows:
+ * suppressed violations, and minor issues when they are turned off, are left out.
+ * The badge is colored by the worst severity present.
+ */
+async function updateBadge(tabId: number, result: ScanResult) {
+  const { suppressions = {}, settings } = await chrome.storage.local.get(['suppressions', 'settings']);
+  const shown = getShownViolations(result.violations, normalizeSettings(settings));
+  const { active } = applySuppressions(shown, suppressions[getSuppressionOrigin(result.url)] || []);
+
+  const total = active.length;
+  chrome.action.setBadgeText({ tabId, text: total > 0 ? (total > 999 ? '999+' : total.toString()) : '' });
+
+  const worstSeverity = SEVERITY_ORDER.find(severity => active.some(v => v.severity === severity));
+  if (worstSeverity) {
+    const colors = BADGE_COLORS[worstSeverity];
+    chrome.action.setBadgeBackgroundColor({ tabId, color: colors.background });
+    chrome.action.setBadgeTextColor({ tabId, color: colors.text });
+  }
+}
+
 // Log when service worker starts
 console.log('Background service worker started');
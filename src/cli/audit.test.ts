@@ -0,0 +1,75 @@
+// @vitest-environment node
+// The CLI sets up its own jsdom window for each page it loads
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runCli } from './audit';
+
+const PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head><title>Checkout</title></head>
+  <body>
+    <main>
+      <h1>Checkout</h1>
+      <input type="email" name="email">
+      <a href="/terms">click here</a>
+    </main>
+  </body>
+</html>`;
+
+describe('runCli', () => {
+  let dir: string;
+  let page: string;
+  let stdout: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'all-inclusive-cli-'));
+    page = join(dir, 'checkout.html');
+    writeFileSync(page, PAGE);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    stdout = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      stdout += String(chunk);
+      return true;
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fails on serious violations by default and passes with --fail-on none', async () => {
+    expect(await runCli([page])).toBe(1);
+    expect(stdout).toContain('[critical] Form input missing label');
+
+    expect(await runCli(['--fail-on', 'none', page])).toBe(0);
+  });
+
+  it('writes JSON in the same shape as the exporter', async () => {
+    await runCli(['--format', 'json', '--fail-on', 'none', page]);
+    const report = JSON.parse(stdout);
+
+    expect(report.url).toMatch(/checkout\.html$/);
+    expect(report.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(report.violations.map((violation: { ruleId: string }) => violation.ruleId)).toContain('form-labels');
+    expect(report.violations.every((violation: object) => !('elementRef' in violation))).toBe(true);
+  });
+
+  it('rejects invalid arguments and config files with exit code 2', async () => {
+    expect(await runCli(['--format', 'pdf', page])).toBe(2);
+    expect(await runCli([])).toBe(2);
+
+    const config = join(dir, 'config.json');
+    writeFileSync(config, JSON.stringify({ ruleOptions: { 'link-purpose': { vagueText: ['mehr'] } } }));
+    expect(await runCli(['--config', config, page])).toBe(2);
+    expect(console.error).toHaveBeenCalledWith('Invalid config:\n  link-purpose.vagueText: unknown option (expected vagueTexts)');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Command-line auditing
+ * Parses the CLI's arguments, scans each page in jsdom and writes the report
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { JSDOM, DOMWindow } from 'jsdom';
+import { Baseline, DeclarativeRuleSet, RuleOptionsConfig, ScanResult, Severity } from '../types';
+import { scanDocument } from '../engine';
+import { SEVERITY_ORDER, decodeEntities, isAtLeastSeverity, summarizeViolations } from '../utils';
+import { applySuppressions, parseBaseline } from '../utils/suppressions';
+import { exportScanResults } from '../exporters';
+import { registerRules } from '../rules/registry';
+import { DEFAULT_RULE_NAMESPACE, compileDeclarativeRules, parseDeclarativeRules } from '../rules/declarative';
+import { parseRuleConfig } from '../rules/config';
+
+const USAGE = `Usage: all-inclusive [options] <file-or-url...>
+
+Audit local HTML files or a dev-server URL against the All-Inclusive WCAG rules.
+
+Options:
+  -f, --format <format>     Output format: text, json, sarif, html, csv or junit
+                            (default: text)
+  -o, --output <file>       Write the report to a file instead of stdout
+      --fail-on <severity>  Exit with code 1 when a violation at or above this severity is found:
+                            critical, serious, moderate, minor or none (default: serious)
+      --baseline <file>     Leave out violations suppressed in a baseline exported from the extension
+      --rules <file>        Also run the declarative rules in a JSON rule set (the options page format)
+      --config <file>       Tune rule options with a config file exported from the options page
+                            (all-inclusive.config.json)
+      --run-scripts         Execute page scripts before scanning (for client-rendered apps)
+  -h, --help                Show this help
+
+Exit codes:
+  0  No violations at or above the --fail-on threshold
+  1  Violations at or above the --fail-on threshold were found
+  2  Invalid arguments or a page could not be loaded`;
+
+// DOM globals the rules rely on, taken from the jsdom window of the page being scanned
+const DOM_GLOBALS = [
+  'window', 'document', 'navigator', 'Node', 'Element', 'HTMLElement', 'HTMLImageElement',
+  'HTMLInputElement', 'HTMLHeadingElement', 'Document', 'ShadowRoot', 'MutationObserver',
+];
+
+const OUTPUT_FORMATS = ['text', 'json', 'sarif', 'html', 'csv', 'junit'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+interface CliOptions {
+  format: OutputFormat;
+  output?: string;
+  failOn: Severity | 'none';
+  baseline?: Baseline;
+  ruleSet?: DeclarativeRuleSet;
+  ruleOptions?: RuleOptionsConfig;
+  runScripts: boolean;
+  targets: string[];
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseOptions(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'text' },
+      output: { type: 'string', short: 'o' },
+      'fail-on': { type: 'string', default: Severity.SERIOUS },
+      baseline: { type: 'string' },
+      rules: { type: 'string' },
+      config: { type: 'string' },
+      'run-scripts': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    return null;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${format}". Expected ${OUTPUT_FORMATS.join(', ')}.`);
+  }
+
+  const failOn = values['fail-on'] as string;
+  if (failOn !== 'none' && !SEVERITY_ORDER.includes(failOn as Severity)) {
+    throw new Error(`Unknown severity "${failOn}". Expected ${SEVERITY_ORDER.join(', ')} or none.`);
+  }
+
+  const baseline: Baseline | undefined = values.baseline
+    ? parseBaseline(readJsonFile(values.baseline as string, 'baseline'))
+    : undefined;
+
+  const ruleSet: DeclarativeRuleSet | undefined = values.rules
+    ? parseDeclarativeRules(readJsonFile(values.rules as string, 'rules'))
+    : undefined;
+
+  const ruleOptions: RuleOptionsConfig | undefined = values.config
+    ? parseRuleConfig(readJsonFile(values.config as string, 'config')).ruleOptions
+    : undefined;
+
+  if (positionals.length === 0) {
+    throw new Error('No files or URLs given.');
+  }
+
+  return {
+    format,
+    output: values.output as string | undefined,
+    failOn: failOn as Severity | 'none',
+    baseline,
+    ruleSet,
+    ruleOptions,
+    runScripts: values['run-scripts'] as boolean,
+    targets: positionals,
+  };
+}
+
+/**
+ * Read a JSON file named on the command line, returning its text for the parser of that kind of file
+ */
+function readJsonFile(path: string, label: string): string {
+  try {
+    return readFileSync(resolve(path), 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read ${label} "${path}".`);
+  }
+}
+
+/**
+ * Load a file or URL into a jsdom instance
+ */
+async function loadPage(target: string, runScripts: boolean): Promise<JSDOM> {
+  const options = {
+    pretendToBeVisual: true,
+    ...(runScripts ? { runScripts: 'dangerously' as const, resources: 'usable' as const } : {}),
+  };
+
+  const dom = /^https?:\/\//i.test(target)
+    ? await JSDOM.fromURL(target, options)
+    : await JSDOM.fromFile(resolve(target), options);
+
+  if (runScripts && dom.window.document.readyState !== 'complete') {
+    await new Promise(resolveLoad => dom.window.addEventListener('load', resolveLoad));
+  }
+
+  return dom;
+}
+
+/**
+ * Point the DOM globals used by the rules at a page's window
+ */
+function installDomGlobals(window: DOMWindow) {
+  DOM_GLOBALS.forEach(name => {
+    Object.defineProperty(globalThis, name, {
+      value: name === 'window' ? window : Reflect.get(window, name),
+      configurable: true,
+      writable: true,
+    });
+  });
+}
+
+/**
+ * Check if a scan has violations at or above the failure threshold
+ */
+function exceedsThreshold(result: ScanResult, failOn: Severity | 'none'): boolean {
+  if (failOn === 'none') return false;
+
+  return result.violations.some(v => isAtLeastSeverity(v.severity, failOn));
+}
+
+/**
+ * Format scan results as human-readable text
+ */
+function formatText(results: ScanResult[]): string {
+  return results.map(result => {
+    const { summary } = result;
+    const lines = [
+      `Accessibility audit: ${result.url}`,
+      `  ${summary.total} violation${summary.total !== 1 ? 's' : ''} (${summary.critical} critical, ${summary.serious} serious, ${summary.moderate} moderate, ${summary.minor} minor)`,
+    ];
+
+    result.violations.forEach(violation => {
+      lines.push('');
+      lines.push(`  [${violation.severity}] ${decodeEntities(violation.message)} (WCAG ${violation.wcagCriteria}, Level ${violation.level})`);
+      lines.push(`    Rule: ${violation.ruleId}`);
+      lines.push(`    Element: ${violation.htmlSnippet.replace(/\s+/g, ' ')}`);
+      if (violation.suggestion) {
+        lines.push(`    Suggestion: ${decodeEntities(violation.suggestion)}`);
+      }
+    });
+
+    return lines.join('\n');
+  }).join('\n\n') + '\n';
+}
+
+/**
+ * Run the CLI with the given arguments (without the node and script paths), returning the exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(`\n${USAGE}`);
+    return 2;
+  }
+
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Custom rules join the registered rules that scanDocument runs by default
+  if (options.ruleSet) {
+    registerRules(options.ruleSet.namespace || DEFAULT_RULE_NAMESPACE, compileDeclarativeRules(options.ruleSet));
+  }
+
+  const results: ScanResult[] = [];
+  let suppressedCount = 0;
+  for (const target of options.targets) {
+    try {
+      const dom = await loadPage(target, options.runScripts);
+      installDomGlobals(dom.window);
+      let result = scanDocument(dom.window.document, undefined, options.ruleOptions);
+      dom.window.close();
+
+      // The baseline applies to every target, since local files and dev servers don't share the site's origin
+      if (options.baseline) {
+        const { active, suppressed } = applySuppressions(result.violations, options.baseline.suppressions);
+        suppressedCount += suppressed.length;
+        result = { ...result, violations: active, summary: summarizeViolations(active) };
+      }
+
+      results.push(result);
+    } catch (error) {
+      console.error(`Failed to audit ${target}:`, error instanceof Error ? error.message : error);
+      return 2;
+    }
+  }
+
+  let report: string;
+  if (options.format === 'text') {
+    report = formatText(results);
+  } else {
+    const { content } = exportScanResults(results, options.format);
+    report = content.endsWith('\n') ? content : content + '\n';
+  }
+
+  // Keep stdout clean for machine-readable formats
+  if (suppressedCount > 0) {
+    console.error(`${suppressedCount} violation${suppressedCount !== 1 ? 's' : ''} suppressed by the baseline`);
+  }
+
+  if (options.output) {
+    writeFileSync(options.output, report);
+  } else {
+    process.stdout.write(report);
+  }
+
+  const { failOn } = options;
+  return results.some(result => exceedsThreshold(result, failOn)) ? 1 : 0;
+}
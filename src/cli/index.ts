@@ -0,0 +1,10 @@
+/**
+ * Headless command-line auditor
+ * Loads HTML files or a local dev-server URL into jsdom and runs the same rule set as the extension
+ */
+
+import { runCli } from './audit';
+
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
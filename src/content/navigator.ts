@@ -0,0 +1,179 @@
+/**
+ * In-page violation navigator
+ * A floating toolbar in the top frame that steps through violations, spotlighting each one
+ * and showing its message and suggestion. Spotlights in other frames are routed through the background worker.
+ */
+
+import { MessageType, Severity, Violation } from '../types';
+import { SEVERITY_ORDER, decodeEntities } from '../utils';
+
+const TOOLBAR_ID = 'all-inclusive-navigator';
+
+let violations: Violation[] = [];
+let severityFilter: Severity | 'all' = 'all';
+let position = 0; // Index into the filtered violations
+let toolbar: HTMLDivElement | null = null;
+
+/**
+ * Open the navigator on a list of violations, starting at the first one
+ */
+export function openNavigator(list: Violation[]) {
+  closeNavigator();
+
+  violations = list;
+  severityFilter = 'all';
+  position = 0;
+
+  toolbar = createToolbar();
+  document.body.appendChild(toolbar);
+  document.addEventListener('keydown', handleKeydown, true);
+
+  showCurrent();
+}
+
+/**
+ * Close the navigator and remove the spotlight
+ */
+export function closeNavigator() {
+  if (!toolbar) return;
+
+  document.removeEventListener('keydown', handleKeydown, true);
+  toolbar.remove();
+  toolbar = null;
+  violations = [];
+
+  chrome.runtime.sendMessage({ type: MessageType.CLEAR_SPOTLIGHT }).catch(() => {});
+}
+
+function getFiltered(): Violation[] {
+  return severityFilter === 'all' ? violations : violations.filter(v => v.severity === severityFilter);
+}
+
+function step(offset: number) {
+  const filtered = getFiltered();
+  if (filtered.length === 0) return;
+
+  // Wrap around at either end
+  position = (position + offset + filtered.length) % filtered.length;
+  showCurrent();
+}
+
+function createToolbar(): HTMLDivElement {
+  const element = document.createElement('div');
+  element.id = TOOLBAR_ID;
+  element.setAttribute('role', 'dialog');
+  element.setAttribute('aria-label', 'All-Inclusive violation navigator');
+
+  const counts = (severity: Severity) => violations.filter(v => v.severity === severity).length;
+  const options = [
+    `<option value="all">All (${violations.length})</option>`,
+    ...SEVERITY_ORDER
+      .filter(severity => counts(severity) > 0)
+      .map(severity => `<option value="${severity}">${severity[0].toUpperCase()}${severity.slice(1)} (${counts(severity)})</option>`),
+  ].join('');
+
+  element.innerHTML = `
+    <div class="all-inclusive-navigator-bar">
+      <select class="all-inclusive-navigator-filter" aria-label="Filter by severity">${options}</select>
+      <button type="button" class="all-inclusive-navigator-prev" title="Previous violation (P)" aria-label="Previous violation">‹</button>
+      <span class="all-inclusive-navigator-position" aria-live="polite"></span>
+      <button type="button" class="all-inclusive-navigator-next" title="Next violation (N)" aria-label="Next violation">›</button>
+      <button type="button" class="all-inclusive-navigator-close" title="Close (Esc)" aria-label="Close navigator">✕</button>
+    </div>
+    <div class="all-inclusive-navigator-details">
+      <div class="all-inclusive-navigator-meta"></div>
+      <p class="all-inclusive-navigator-message"></p>
+      <p class="all-inclusive-navigator-suggestion"></p>
+      <p class="all-inclusive-navigator-frame"></p>
+      <p class="all-inclusive-navigator-hint">N / P to step · Esc to close</p>
+    </div>
+  `;
+
+  const filter = element.querySelector('.all-inclusive-navigator-filter') as HTMLSelectElement;
+  filter.addEventListener('change', () => {
+    severityFilter = filter.value as Severity | 'all';
+    position = 0;
+    showCurrent();
+  });
+  element.querySelector('.all-inclusive-navigator-prev')!.addEventListener('click', () => step(-1));
+  element.querySelector('.all-inclusive-navigator-next')!.addEventListener('click', () => step(1));
+  element.querySelector('.all-inclusive-navigator-close')!.addEventListener('click', closeNavigator);
+
+  return element;
+}
+
+/**
+ * Show the current violation's details and spotlight its element
+ */
+function showCurrent() {
+  if (!toolbar) return;
+
+  const filtered = getFiltered();
+  const violation = filtered[position];
+
+  const find = (className: string) => toolbar!.querySelector(`.all-inclusive-navigator-${className}`) as HTMLElement;
+  find('position').textContent = violation ? `${position + 1} / ${filtered.length}` : '0 / 0';
+  (find('prev') as HTMLButtonElement).disabled = filtered.length < 2;
+  (find('next') as HTMLButtonElement).disabled = filtered.length < 2;
+
+  if (!violation) {
+    find('meta').textContent = '';
+    find('message').textContent = 'No violations to review.';
+    find('suggestion').textContent = '';
+    find('frame').textContent = '';
+    chrome.runtime.sendMessage({ type: MessageType.CLEAR_SPOTLIGHT }).catch(() => {});
+    return;
+  }
+
+  const meta = find('meta');
+  meta.innerHTML = '';
+  const severityTag = document.createElement('span');
+  severityTag.className = `all-inclusive-navigator-severity all-inclusive-severity-${violation.severity}`;
+  severityTag.textContent = violation.severity;
+  meta.appendChild(severityTag);
+  meta.appendChild(document.createTextNode(` WCAG ${violation.wcagCriteria} (Level ${violation.level})`));
+
+  find('message').textContent = decodeEntities(violation.message);
+  find('suggestion').textContent = violation.suggestion ? `Suggestion: ${decodeEntities(violation.suggestion)}` : '';
+  find('frame').textContent = violation.framePath?.length ? `In frame: ${violation.framePath[violation.framePath.length - 1]}` : '';
+
+  // The element may live in another frame, so let the background worker route the spotlight
+  chrome.runtime.sendMessage({
+    type: MessageType.SPOTLIGHT_ELEMENT,
+    frameId: violation.frameId || 0,
+    selector: violation.element,
+    elementRef: violation.elementRef,
+  }).then(response => {
+    if (response && !response.found && toolbar) {
+      find('frame').textContent = 'This element is no longer on the page. Rescan to update the results.';
+    }
+  }).catch(error => console.warn('Failed to spotlight violation:', error));
+}
+
+/**
+ * Keyboard shortcuts, ignored while typing in the page
+ */
+function handleKeydown(event: KeyboardEvent) {
+  if (event.altKey || event.ctrlKey || event.metaKey) return;
+
+  const target = event.target as HTMLElement;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+    if (event.key === 'Escape' && toolbar?.contains(target)) {
+      closeNavigator();
+    }
+    return;
+  }
+
+  if (event.key === 'Escape') {
+    closeNavigator();
+  } else if (event.key === 'n' || event.key === 'N') {
+    step(1);
+  } else if (event.key === 'p' || event.key === 'P') {
+    step(-1);
+  } else {
+    return;
+  }
+
+  event.preventDefault();
+  event.stopPropagation();
+}
@@ -0,0 +1,105 @@
+/**
+ * Annotate page mode
+ * Draws severity-colored outlines and numbered badges on every violating element at once,
+ * keeping them on their elements as the page scrolls and resizes
+ */
+
+import { Annotation } from '../types';
+import { decodeEntities } from '../utils';
+import { findElement } from '../utils/registry';
+
+const CONTAINER_ID = 'all-inclusive-annotations';
+
+interface Marker {
+  element: Element;
+  outline: HTMLDivElement;
+  badge: HTMLDivElement;
+}
+
+let container: HTMLDivElement | null = null;
+let markers: Marker[] = [];
+let frameRequested = false;
+
+/**
+ * Draw markers for a set of annotations, replacing any that are shown
+ */
+export function showAnnotations(annotations: Annotation[]) {
+  clearAnnotations();
+
+  container = document.createElement('div');
+  container.id = CONTAINER_ID;
+
+  annotations.forEach(annotation => {
+    // Resolve now: positional selectors drift as the page changes
+    const element = findElement(document, annotation.selector, annotation.elementRef);
+    if (!element) return;
+
+    const outline = document.createElement('div');
+    outline.className = `all-inclusive-annotation-outline all-inclusive-severity-${annotation.severity}`;
+
+    const badge = document.createElement('div');
+    badge.className = `all-inclusive-annotation-badge all-inclusive-severity-${annotation.severity}`;
+    badge.textContent = String(annotation.number);
+
+    const tooltip = document.createElement('div');
+    tooltip.className = 'all-inclusive-annotation-tooltip';
+    tooltip.textContent = `${annotation.number}. ${decodeEntities(annotation.message)}`;
+    badge.appendChild(tooltip);
+
+    container!.appendChild(outline);
+    container!.appendChild(badge);
+    markers.push({ element, outline, badge });
+  });
+
+  document.body.appendChild(container);
+  positionMarkers();
+
+  // Capture scrolls of inner scroll containers too
+  window.addEventListener('scroll', requestPosition, true);
+  window.addEventListener('resize', requestPosition);
+}
+
+/**
+ * Remove all markers
+ */
+export function clearAnnotations() {
+  window.removeEventListener('scroll', requestPosition, true);
+  window.removeEventListener('resize', requestPosition);
+
+  container?.remove();
+  container = null;
+  markers = [];
+}
+
+function requestPosition() {
+  if (frameRequested) return;
+  frameRequested = true;
+
+  requestAnimationFrame(() => {
+    frameRequested = false;
+    positionMarkers();
+  });
+}
+
+/**
+ * Move each marker onto its element, hiding markers for elements that are gone or not rendered
+ */
+function positionMarkers() {
+  markers.forEach(({ element, outline, badge }) => {
+    const rect = element.getBoundingClientRect();
+    const hidden = !element.isConnected || (rect.width === 0 && rect.height === 0);
+
+    outline.style.display = hidden ? 'none' : '';
+    badge.style.display = hidden ? 'none' : '';
+    if (hidden) return;
+
+    outline.style.top = `${rect.top - 3}px`;
+    outline.style.left = `${rect.left - 3}px`;
+    outline.style.width = `${rect.width + 6}px`;
+    outline.style.height = `${rect.height + 6}px`;
+
+    // Keep the badge inside the viewport for elements at the very top or left
+    badge.style.top = `${Math.max(rect.top - 12, 0)}px`;
+    badge.style.left = `${Math.max(rect.left - 12, 0)}px`;
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Element spotlight
+ * Dims the page around one element and keeps the highlight on it as the page scrolls and resizes
+ */
+
+const OVERLAY_ID = 'all-inclusive-spotlight-overlay';
+const BOUNDING_BOX_ID = 'all-inclusive-bounding-box';
+
+let spotlightElement: Element | null = null;
+let frameRequested = false;
+
+/**
+ * Scroll an element into view and spotlight it, replacing any current spotlight
+ */
+export function showSpotlight(element: Element) {
+  clearSpotlight();
+
+  // Create dark overlay
+  const overlay = document.createElement('div');
+  overlay.id = OVERLAY_ID;
+  overlay.style.cssText = `
+    position: fixed;
+    top: 0;
+    left: 0;
+    width: 100vw;
+    height: 100vh;
+    background: rgba(0, 0, 0, 0.5);
+    z-index: 999999;
+    pointer-events: none;
+  `;
+  document.body.appendChild(overlay);
+
+  // Create bounding box around the element
+  const boundingBox = document.createElement('div');
+  boundingBox.id = BOUNDING_BOX_ID;
+  boundingBox.style.cssText = `
+    position: fixed;
+    border: 3px solid #667eea;
+    box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.5),
+                0 0 20px rgba(102, 126, 234, 0.8),
+                inset 0 0 20px rgba(102, 126, 234, 0.3);
+    border-radius: 4px;
+    z-index: 1000000;
+    pointer-events: none;
+    box-sizing: border-box;
+  `;
+  document.body.appendChild(boundingBox);
+
+  spotlightElement = element;
+  positionSpotlight();
+
+  // Follow the element while it scrolls into view and afterwards (including inner scroll containers)
+  window.addEventListener('scroll', requestPosition, true);
+  window.addEventListener('resize', requestPosition);
+
+  const rect = element.getBoundingClientRect();
+  if (rect.top < 0 || rect.bottom > window.innerHeight) {
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }
+}
+
+/**
+ * Remove the spotlight
+ */
+export function clearSpotlight() {
+  window.removeEventListener('scroll', requestPosition, true);
+  window.removeEventListener('resize', requestPosition);
+
+  document.getElementById(OVERLAY_ID)?.remove();
+  document.getElementById(BOUNDING_BOX_ID)?.remove();
+
+  spotlightElement = null;
+}
+
+/**
+ * Check if an element is spotlighted
+ */
+export function isSpotlightActive(): boolean {
+  return spotlightElement !== null;
+}
+
+function requestPosition() {
+  if (frameRequested) return;
+  frameRequested = true;
+
+  requestAnimationFrame(() => {
+    frameRequested = false;
+    positionSpotlight();
+  });
+}
+
+function positionSpotlight() {
+  const boundingBox = document.getElementById(BOUNDING_BOX_ID);
+  if (!spotlightElement || !boundingBox) return;
+
+  const rect = spotlightElement.getBoundingClientRect();
+  boundingBox.style.top = `${rect.top - 4}px`;
+  boundingBox.style.left = `${rect.left - 4}px`;
+  boundingBox.style.width = `${rect.width + 8}px`;
+  boundingBox.style.height = `${rect.height + 8}px`;
+}
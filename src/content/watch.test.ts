@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ScanResult } from '../types';
+import { formLabels } from '../rules/understandable';
+import { ariaUsage } from '../rules/robust';
+import { clearAnnotations, showAnnotations } from './overlay';
+import { clearSpotlight, showSpotlight } from './spotlight';
+import { startWatching, stopWatching } from './watch';
+
+// Lets the mutation observer deliver its records, then runs the debounced rescan
+async function settle() {
+  await Promise.resolve();
+  await vi.advanceTimersByTimeAsync(1000);
+}
+
+describe('live monitoring', () => {
+  let updates: ScanResult[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    updates = [];
+  });
+
+  afterEach(() => {
+    stopWatching();
+    clearAnnotations();
+    clearSpotlight();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  const watch = () => startWatching([formLabels, ariaUsage], result => updates.push(result));
+  const latestRules = () => updates[updates.length - 1].violations.map(violation => violation.ruleId);
+
+  it('reports the page on start and again after a change', async () => {
+    document.body.innerHTML = '<main><label>Name <input></label></main>';
+    watch();
+    expect(updates).toHaveLength(1);
+    expect(latestRules()).toEqual([]);
+
+    document.querySelector('main')!.insertAdjacentHTML('beforeend', '<input type="email">');
+    await settle();
+
+    expect(updates).toHaveLength(2);
+    expect(latestRules()).toEqual(['form-labels']);
+  });
+
+  it('re-checks a control when the text of its <label for> changes', async () => {
+    document.body.innerHTML = '<main><p><label for="email"></label></p><input id="email"></main>';
+    watch();
+    expect(latestRules()).toEqual(['form-labels']);
+
+    document.querySelector('label')!.textContent = 'Email';
+    await settle();
+
+    expect(latestRules()).toEqual([]);
+  });
+
+  it('re-checks elements whose aria-labelledby target changes', async () => {
+    document.body.innerHTML = `
+      <main>
+        <section><h2 id="billing"><span></span></h2></section>
+        <form><input aria-labelledby="billing"></form>
+      </main>
+    `;
+    watch();
+    expect(latestRules()).toEqual(['form-labels']);
+
+    document.querySelector('#billing span')!.textContent = 'Billing address';
+    await settle();
+    expect(latestRules()).toEqual([]);
+
+    document.getElementById('billing')!.remove();
+    await settle();
+    expect(latestRules()).toEqual(['form-labels']);
+  });
+
+  it("ignores the extension's own annotations, including their repositioning", async () => {
+    document.body.innerHTML = '<main><input id="email"></main>';
+    watch();
+    const [violation] = updates[0].violations;
+
+    showAnnotations([{ selector: violation.element, elementRef: violation.elementRef, severity: violation.severity, message: violation.message, number: 1 }]);
+    await settle();
+    window.dispatchEvent(new Event('scroll'));
+    window.dispatchEvent(new Event('resize'));
+    await settle();
+
+    expect(document.querySelector('.all-inclusive-annotation-outline')).not.toBeNull();
+    expect(updates).toHaveLength(1);
+  });
+
+  it('ignores the spotlight following its element as the page scrolls', async () => {
+    document.body.innerHTML = '<main><input id="email"></main>';
+    watch();
+    const input = document.getElementById('email')!;
+
+    showSpotlight(input);
+    await settle();
+    vi.spyOn(input, 'getBoundingClientRect').mockReturnValue(new DOMRect(10, 20, 100, 30));
+    window.dispatchEvent(new Event('scroll'));
+    await settle();
+
+    expect(document.getElementById('all-inclusive-bounding-box')?.style.top).toBe('16px');
+    expect(updates).toHaveLength(1);
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * Live monitoring mode for single-page apps
+ * Observes DOM mutations and re-runs rules on the changed subtrees and on elements that reference them (debounced)
+ */
+
+import { AccessibilityRule, RuleOptionsConfig, ScanResult, Violation, WCAGLevel } from '../types';
+import { getComposedParent, getElementSelector, isExtensionElement, querySelectorAllDeep } from '../utils';
+import { findElement } from '../utils/registry';
+import { ARIA_ATTRIBUTES } from '../utils/aria';
+import { buildScanResult, runRules } from '../engine';
+
+const DEBOUNCE_MS = 750;
+
+const OBSERVER_OPTIONS: MutationObserverInit = {
+  subtree: true,
+  childList: true,
+  attributes: true,
+  attributeOldValue: true, // To find what pointed at an element whose ID changed
+  characterData: true,
+};
+
+// Attributes that point at other elements by ID, so the pointing element's name or state depends on its targets
+const REFERENCE_ATTRIBUTES = Object.entries(ARIA_ATTRIBUTES)
+  .filter(([, definition]) => definition.type === 'idref' || definition.type === 'idrefs')
+  .map(([attribute]) => attribute);
+
+const REFERENCE_SELECTOR = REFERENCE_ATTRIBUTES.map(attribute => `[${attribute}]`).join(', ');
+
+interface TrackedViolation {
+  rule: AccessibilityRule;
+  violation: Violation;
+  element: Element | null;
+}
+
+let observer: MutationObserver | null = null;
+let watchedRules: AccessibilityRule[] = [];
+let watchedLevel: WCAGLevel | undefined;
+let watchedRuleOptions: RuleOptionsConfig | undefined;
+let updateCallback: ((result: ScanResult) => void) | null = null;
+let tracked: TrackedViolation[] = [];
+let pendingRoots = new Set<Element>();
+let pendingIds = new Set<string>(); // IDs of removed or renamed elements
+let fullScanPending = false;
+let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Start watching the page, reporting a fresh ScanResult after every settled change.
+ * Sub-checks above the target level are left out of the reported results.
+ */
+export function startWatching(
+  rules: AccessibilityRule[],
+  onUpdate: (result: ScanResult) => void,
+  level?: WCAGLevel,
+  ruleOptions?: RuleOptionsConfig
+) {
+  stopWatching();
+
+  watchedRules = rules;
+  watchedLevel = level;
+  watchedRuleOptions = ruleOptions;
+  updateCallback = onUpdate;
+  observer = new MutationObserver(handleMutations);
+  observeTree(document);
+
+  window.addEventListener('popstate', handleNavigation);
+  window.addEventListener('hashchange', handleNavigation);
+
+  runFullScan();
+}
+
+/**
+ * Stop watching the page and drop all tracked state
+ */
+export function stopWatching() {
+  observer?.disconnect();
+  observer = null;
+  updateCallback = null;
+  tracked = [];
+  pendingRoots.clear();
+  pendingIds.clear();
+  fullScanPending = false;
+
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = undefined;
+  }
+
+  window.removeEventListener('popstate', handleNavigation);
+  window.removeEventListener('hashchange', handleNavigation);
+}
+
+/**
+ * Check if live monitoring is active in this frame
+ */
+export function isWatching(): boolean {
+  return observer !== null;
+}
+
+/**
+ * Schedule a full rescan after an SPA route change
+ */
+export function handleNavigation() {
+  if (!observer) return;
+
+  fullScanPending = true;
+  scheduleFlush();
+}
+
+/**
+ * Observe a document or shadow root, plus every open shadow root nested inside it
+ */
+function observeTree(root: Document | ShadowRoot | Element) {
+  if (!observer) return;
+
+  if (!(root instanceof Element)) {
+    observer.observe(root, OBSERVER_OPTIONS);
+  }
+
+  querySelectorAllDeep(root, '*').forEach(element => {
+    if (element.shadowRoot) {
+      observer!.observe(element.shadowRoot, OBSERVER_OPTIONS);
+    }
+  });
+}
+
+/**
+ * Collect the roots of changed subtrees, ignoring our own overlays
+ */
+function handleMutations(mutations: MutationRecord[]) {
+  mutations.forEach(mutation => {
+    if (isOwnMutation(mutation)) return;
+
+    if (mutation.type === 'childList') {
+      // Newly attached web components may bring their own shadow roots
+      mutation.addedNodes.forEach(node => {
+        if (node instanceof Element) {
+          observeTree(node);
+        }
+      });
+      mutation.removedNodes.forEach(node => {
+        if (node instanceof Element) {
+          [node, ...Array.from(node.querySelectorAll('[id]'))].forEach(element => element.id && pendingIds.add(element.id));
+        }
+      });
+    }
+
+    if (mutation.attributeName === 'id' && mutation.oldValue) {
+      pendingIds.add(mutation.oldValue);
+    }
+
+    const root = getMutationRoot(mutation.target);
+    if (root) {
+      pendingRoots.add(root);
+    }
+  });
+
+  if (pendingRoots.size > 0) {
+    scheduleFlush();
+  }
+}
+
+/**
+ * Check if a mutation was caused by the extension itself: a change inside its UI (such as markers
+ * being repositioned on scroll), or its UI being added to or removed from the page
+ */
+function isOwnMutation(mutation: MutationRecord): boolean {
+  const root = getMutationRoot(mutation.target);
+  if (root && isExtensionElement(root)) {
+    return true;
+  }
+
+  if (mutation.type === 'childList') {
+    const changedNodes = [...Array.from(mutation.addedNodes), ...Array.from(mutation.removedNodes)];
+    return changedNodes.length > 0 && changedNodes.every(node =>
+      node instanceof Element && node.id.startsWith('all-inclusive-')
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Get the element whose subtree should be re-checked for a mutated node
+ */
+function getMutationRoot(node: Node): Element | null {
+  if (node instanceof Element) {
+    return node;
+  }
+
+  if (node instanceof ShadowRoot) {
+    return node.host;
+  }
+
+  if (node.parentElement) {
+    return node.parentElement;
+  }
+
+  return node.parentNode instanceof ShadowRoot ? node.parentNode.host : null;
+}
+
+function scheduleFlush() {
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+  }
+  debounceTimer = setTimeout(flush, DEBOUNCE_MS);
+}
+
+/**
+ * Re-run the rules on every changed subtree and report the merged result
+ */
+function flush() {
+  debounceTimer = undefined;
+
+  if (fullScanPending) {
+    fullScanPending = false;
+    pendingRoots.clear();
+    runFullScan();
+    return;
+  }
+
+  const roots = collapseRoots([...pendingRoots, ...getReferencingElements(Array.from(pendingRoots), pendingIds)]);
+  pendingRoots.clear();
+  pendingIds.clear();
+
+  if (roots.length === 0) return;
+
+  // Drop violations whose element changed or disappeared; page-level rules are always re-run
+  tracked = tracked.filter(({ rule, element }) => {
+    if (rule.scope === 'page') return false;
+    if (!element || !element.isConnected) return false;
+    return !roots.some(root => containsComposed(root, element));
+  });
+
+  const elementRules = watchedRules.filter(rule => rule.scope !== 'page');
+  const pageRules = watchedRules.filter(rule => rule.scope === 'page');
+
+  roots.forEach(root => {
+    elementRules.forEach(rule => runRule(rule, root));
+  });
+
+  pageRules.forEach(rule => runRule(rule, document));
+
+  emitUpdate();
+}
+
+/**
+ * Re-run every rule against the whole document
+ */
+function runFullScan() {
+  tracked = [];
+  watchedRules.forEach(rule => runRule(rule, document));
+
+  emitUpdate();
+}
+
+function runRule(rule: AccessibilityRule, root: Element | Document) {
+  runRules([rule], root, watchedRuleOptions).forEach(violation => {
+    tracked.push({
+      rule,
+      violation,
+      element: findElement(document, violation.element, violation.elementRef),
+    });
+  });
+}
+
+/**
+ * Report the current violations, ordered by rule and then by position in the page
+ */
+function emitUpdate() {
+  if (!updateCallback) return;
+
+  const sorted = [...tracked].sort((a, b) => {
+    const ruleOrder = watchedRules.indexOf(a.rule) - watchedRules.indexOf(b.rule);
+    if (ruleOrder !== 0 || !a.element || !b.element || a.element === b.element) return ruleOrder;
+    return a.element.compareDocumentPosition(b.element) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+  });
+
+  // Selectors are positional, so refresh them for violations kept from earlier runs
+  const current = sorted.map(({ violation, element }) =>
+    element && element.isConnected ? { ...violation, element: getElementSelector(element) } : violation
+  );
+
+  updateCallback(buildScanResult(current, document, watchedLevel));
+}
+
+/**
+ * Find the elements outside the changed subtrees that depend on them: elements whose aria-labelledby,
+ * aria-describedby etc. point into a changed subtree, and controls labelled by a changed <label for>
+ */
+function getReferencingElements(roots: Element[], removedIds: Set<string>): Element[] {
+  const ids = new Set(removedIds);
+  const referencing: Element[] = [];
+
+  roots.filter(root => root.isConnected).forEach(root => {
+    // A text change inside a referenced element (or a label) is reported on a descendant of it
+    const ancestors: Element[] = [];
+    for (let current = root.parentElement; current; current = current.parentElement) {
+      ancestors.push(current);
+    }
+
+    [root, ...ancestors, ...Array.from(root.querySelectorAll('[id], label[for]'))].forEach(element => {
+      if (element.id) {
+        ids.add(element.id);
+      }
+
+      const treeRoot = element.getRootNode();
+      const controlId = element.matches('label[for]') ? element.getAttribute('for') : null;
+      if (controlId && (treeRoot instanceof Document || treeRoot instanceof ShadowRoot)) {
+        const control = treeRoot.getElementById(controlId);
+        if (control) {
+          referencing.push(control);
+        }
+      }
+    });
+  });
+
+  if (ids.size === 0) return referencing;
+
+  querySelectorAllDeep(document, REFERENCE_SELECTOR).forEach(element => {
+    const referencesChangedId = REFERENCE_ATTRIBUTES.some(attribute =>
+      (element.getAttribute(attribute) || '').split(/\s+/).some(id => ids.has(id))
+    );
+    if (referencesChangedId) {
+      referencing.push(element);
+    }
+  });
+
+  return referencing;
+}
+
+/**
+ * Remove disconnected roots and roots nested inside other changed roots
+ */
+function collapseRoots(roots: Element[]): Element[] {
+  const connected = roots.filter(root => root.isConnected);
+  return connected.filter(root =>
+    !connected.some(other => other !== root && containsComposed(other, root))
+  );
+}
+
+/**
+ * Check if an element is inside another, following shadow hosts
+ */
+function containsComposed(ancestor: Element, element: Element): boolean {
+  let current: Element | null = element;
+  while (current) {
+    if (current === ancestor) return true;
+    current = getComposedParent(current);
+  }
+  return false;
+}
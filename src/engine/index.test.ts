@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AccessibilityRule, Severity, WCAGLevel, WCAGPrinciple } from '../types';
+import { runAudit, selectRules } from './index';
+
+describe('runAudit', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <main>
+        <h1>Orders</h1>
+        <h2></h2>
+        <section id="filters"><input type="search"></section>
+        <img src="chart.png">
+      </main>
+    `;
+  });
+
+  const ruleIds = (options: Parameters<typeof runAudit>[1]) =>
+    [...new Set(runAudit(document, options).violations.map(violation => violation.ruleId))];
+
+  it('runs every active rule by default and summarizes the result', () => {
+    const result = runAudit(document);
+
+    expect(result.url).toBe(document.location.href);
+    expect(ruleIds({})).toEqual(expect.arrayContaining(['image-alt-text', 'form-labels', 'heading-structure']));
+    expect(result.summary.total).toBe(result.violations.length);
+  });
+
+  it('runs only included rules, and skips excluded ones', () => {
+    expect(ruleIds({ include: ['form-labels'] })).toEqual(['form-labels']);
+    expect(ruleIds({ exclude: ['form-labels'] })).not.toContain('form-labels');
+  });
+
+  it('leaves out rules and sub-checks above the target level', () => {
+    const ids = (level: WCAGLevel) => runAudit(document, { level, include: ['heading-structure'] }).violations.map(v => v.id);
+
+    expect(ids(WCAGLevel.A).some(id => id.startsWith('heading-empty'))).toBe(false);
+    expect(ids(WCAGLevel.AA).some(id => id.startsWith('heading-empty'))).toBe(true);
+  });
+
+  it('limits the scan to a root element or selector', () => {
+    const filters = document.getElementById('filters')!;
+
+    expect(ruleIds({ root: '#filters' })).toEqual(['form-labels']);
+    expect(ruleIds({ root: filters, include: ['image-alt-text'] })).toEqual([]);
+    expect(() => runAudit(document, { root: '#missing' })).toThrow('Root element not found: #missing');
+  });
+
+  it('runs rules passed in instead of the registered ones', () => {
+    const rule: AccessibilityRule = {
+      id: 'no-search',
+      name: 'No search fields',
+      description: 'Search fields are not allowed',
+      principle: WCAGPrinciple.OPERABLE,
+      wcagCriteria: '2.1.1',
+      level: WCAGLevel.A,
+      check: root => Array.from(root.querySelectorAll('input[type="search"]')).map((element, index) => ({
+        id: `no-search-${index}`,
+        ruleId: 'no-search',
+        principle: WCAGPrinciple.OPERABLE,
+        wcagCriteria: '2.1.1',
+        level: WCAGLevel.A,
+        severity: Severity.MINOR,
+        message: 'Search field found',
+        description: 'Search field found',
+        element: 'input[type="search"]',
+        htmlSnippet: element.outerHTML,
+      })),
+    };
+
+    const result = runAudit(document, { rules: [rule] });
+    expect(result.violations.map(violation => violation.ruleId)).toEqual(['no-search']);
+    expect(result.violations[0].fingerprint).toBeDefined();
+  });
+});
+
+describe('selectRules', () => {
+  it('rejects unknown rule IDs', () => {
+    expect(() => selectRules({ include: ['form-labels', 'form-label'] })).toThrow('Unknown rule ID(s): form-label');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Scanning engine shared by the content script, the headless CLI and the library entry point
+ * Has no dependency on chrome.* APIs
+ */
+
+import { AccessibilityRule, RuleOptionsConfig, ScanResult, Violation, WCAGLevel } from '../types';
+import { getActiveRules, getRegisteredRules } from '../rules/registry';
+import { getRuleOptions, sanitizeRuleOptions } from '../rules/config';
+import { getElementXPath, querySelectorDeep, summarizeViolations } from '../utils';
+import { assignFingerprints } from '../utils/fingerprint';
+import { findElement } from '../utils/registry';
+
+/**
+ * Run a set of rules against a document or element, isolating failures per rule
+ * @param ruleOptions Overrides of the rules' default options, keyed by rule ID
+ */
+export function runRules(rules: AccessibilityRule[], root: Element | Document, ruleOptions?: RuleOptionsConfig): Violation[] {
+  const violations: Violation[] = [];
+
+  rules.forEach(rule => {
+    try {
+      violations.push(...rule.check(root, getRuleOptions(rule, ruleOptions)));
+    } catch (error) {
+      console.error(`Error running rule ${rule.id}:`, error);
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * Scan a document or element and build a ScanResult (with every enabled registered rule by default)
+ */
+export function scanDocument(
+  root: Element | Document,
+  rules: AccessibilityRule[] = getActiveRules(),
+  ruleOptions?: RuleOptionsConfig
+): ScanResult {
+  return buildScanResult(runRules(rules, root, ruleOptions), root);
+}
+
+/**
+ * Turn the violations the rules reported in a document into a ScanResult: fingerprint them,
+ * add their XPaths, and leave out sub-checks above the target level (if one is given)
+ */
+export function buildScanResult(violations: Violation[], root: Element | Document, level?: WCAGLevel): ScanResult {
+  const ownerDocument = root.ownerDocument || (root as Document);
+
+  // Fingerprints are assigned before level filtering, so they don't depend on the target level
+  const reported = assignFingerprints(violations, root)
+    .filter(violation => !level || isWithinLevel(violation.level, level))
+    .map(violation => {
+      const element = findElement(ownerDocument, violation.element, violation.elementRef);
+      const xpath = element ? getElementXPath(element) : undefined;
+      return xpath ? { ...violation, xpath } : violation;
+    });
+
+  return {
+    url: ownerDocument.location?.href || ownerDocument.URL,
+    timestamp: Date.now(),
+    violations: reported,
+    summary: summarizeViolations(reported),
+  };
+}
+
+/**
+ * Options for runAudit
+ */
+export interface AuditOptions {
+  include?: string[]; // Only run these rule IDs
+  exclude?: string[]; // Skip these rule IDs
+  level?: WCAGLevel; // Highest conformance level to check, e.g. AA checks Level A and AA
+  root?: Element | string; // Limit the scan to an element (or a selector resolved in the document)
+  rules?: AccessibilityRule[]; // Rule set to choose from (defaults to the registered rules: built-in plus custom)
+  ruleOptions?: RuleOptionsConfig; // Overrides of the rules' default options, e.g. { 'link-purpose': { vagueTexts: ['mehr'] } }
+}
+
+const LEVEL_ORDER: WCAGLevel[] = [WCAGLevel.A, WCAGLevel.AA, WCAGLevel.AAA];
+
+/**
+ * Check if a conformance level is within a target level
+ */
+export function isWithinLevel(level: WCAGLevel, targetLevel: WCAGLevel): boolean {
+  return LEVEL_ORDER.indexOf(level) <= LEVEL_ORDER.indexOf(targetLevel);
+}
+
+/**
+ * Pick the rules to run for a set of audit options
+ */
+export function selectRules(options: AuditOptions = {}): AccessibilityRule[] {
+  const knownIds = new Set((options.rules || getRegisteredRules()).map(rule => rule.id));
+  // Rules disabled in the registry still run when they are explicitly included
+  const rules = options.rules || (options.include ? getRegisteredRules() : getActiveRules());
+
+  const unknownIds = [...(options.include || []), ...(options.exclude || [])].filter(id => !knownIds.has(id));
+  if (unknownIds.length > 0) {
+    throw new Error(`Unknown rule ID(s): ${unknownIds.join(', ')}`);
+  }
+
+  return rules.filter(rule => {
+    if (options.include && !options.include.includes(rule.id)) return false;
+    if (options.exclude && options.exclude.includes(rule.id)) return false;
+    if (options.level && !isWithinLevel(rule.level, options.level)) return false;
+    return true;
+  });
+}
+
+/**
+ * Audit a document or element and return a ScanResult
+ */
+export function runAudit(target: Document | Element, options: AuditOptions = {}): ScanResult {
+  let root: Document | Element = target;
+
+  if (typeof options.root === 'string') {
+    const scoped = querySelectorDeep(target, options.root);
+    if (!scoped) {
+      throw new Error(`Root element not found: ${options.root}`);
+    }
+    root = scoped;
+  } else if (options.root) {
+    root = options.root;
+  }
+
+  // Invalid options are logged and left out. Options may also name registered rules left out of this audit
+  // (e.g. rules turned off in the settings).
+  const ruleOptions = options.ruleOptions && sanitizeRuleOptions(options.ruleOptions, [...(options.rules || []), ...getRegisteredRules()]);
+
+  // Some rules report sub-checks at a stricter level than the rule itself (e.g. empty headings are 2.4.6 AA)
+  return buildScanResult(runRules(selectRules(options), root, ruleOptions), root, options.level);
+}
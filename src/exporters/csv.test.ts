@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ScanResult, Severity, Violation, WCAGLevel, WCAGPrinciple } from '../types';
+import { summarizeViolations } from '../utils';
+import { toCsv } from './csv';
+
+const violation = (overrides: Partial<Violation> = {}): Violation => ({
+  id: 'link-purpose-0',
+  ruleId: 'link-purpose',
+  principle: WCAGPrinciple.OPERABLE,
+  wcagCriteria: '2.4.4',
+  level: WCAGLevel.A,
+  severity: Severity.MODERATE,
+  message: 'Vague link text',
+  description: 'The link text does not describe its target',
+  element: 'main > a',
+  htmlSnippet: '<a href="/more">more</a>',
+  ...overrides,
+});
+
+const toRows = (violations: Violation[]): string[] => {
+  const result: ScanResult = { url: 'https://example.com/', timestamp: 0, violations, summary: summarizeViolations(violations) };
+  return toCsv([result]).split('\r\n');
+};
+
+describe('toCsv', () => {
+  it('writes a header and one CRLF-terminated row per violation', () => {
+    const rows = toRows([violation({ xpath: '/html/body/main/a', framePath: ['https://a.test/', 'https://b.test/'] })]);
+
+    expect(rows).toEqual([
+      'URL,Rule,WCAG Criterion,Level,Severity,Principle,Selector,XPath,Message,Frame',
+      'https://example.com/,link-purpose,2.4.4,A,moderate,operable,main > a,/html/body/main/a,Vague link text,https://a.test/ > https://b.test/',
+      '',
+    ]);
+  });
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    const [, row] = toRows([violation({
+      element: 'a[title="Home, sweet home"]',
+      message: 'Link text &quot;more&quot;\nis vague',
+    })]);
+
+    expect(row).toContain(',"a[title=""Home, sweet home""]",');
+    expect(row).toContain(',"Link text ""more""\nis vague",');
+  });
+
+  it('neutralizes values that spreadsheets would run as formulas', () => {
+    // The message is the second-to-last column, before the empty frame column
+    const messageCell = (message: string) => toRows([violation({ message })])[1].split(',').slice(-2)[0];
+
+    expect(messageCell('=1+2')).toBe("'=1+2");
+    expect(messageCell('+1')).toBe("'+1");
+    expect(messageCell('-2')).toBe("'-2");
+    expect(messageCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(messageCell('\tcmd')).toBe("'\tcmd");
+    expect(toRows([violation({ message: '=HYPERLINK("https://evil.test")' })])[1]).toContain(',"\'=HYPERLINK(""https://evil.test"")",');
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * CSV exporter
+ * One row per violation, for triage in spreadsheets (RFC 4180 quoting, CRLF line endings)
+ */
+
+import { ScanResult } from '../types';
+import { decodeEntities } from '../utils';
+
+const COLUMNS = ['URL', 'Rule', 'WCAG Criterion', 'Level', 'Severity', 'Principle', 'Selector', 'XPath', 'Message', 'Frame'];
+
+/**
+ * Quote a CSV field when needed, and neutralize values spreadsheets would run as formulas
+ */
+function toCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Render scan results as CSV
+ */
+export function toCsv(results: ScanResult[]): string {
+  const rows = results.flatMap(result => result.violations.map(violation => [
+    result.url,
+    violation.ruleId,
+    violation.wcagCriteria,
+    violation.level,
+    violation.severity,
+    violation.principle,
+    violation.element,
+    violation.xpath || '',
+    decodeEntities(violation.message),
+    (violation.framePath || []).join(' > '),
+  ]));
+
+  return [COLUMNS, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ScanResult, Severity, Violation, WCAGLevel, WCAGPrinciple } from '../types';
+import { summarizeViolations } from '../utils';
+import { toHtmlReport } from './html';
+
+const violation: Violation = {
+  id: 'image-alt-0',
+  ruleId: 'image-alt-text',
+  principle: WCAGPrinciple.PERCEIVABLE,
+  wcagCriteria: '1.1.1',
+  level: WCAGLevel.A,
+  severity: Severity.CRITICAL,
+  message: 'Image alt text "&lt;script&gt;alert(1)&lt;/script&gt;" looks like a file name',
+  description: 'The &lt;img&gt; has alt text that describes nothing',
+  element: 'img[alt="<script>"]',
+  htmlSnippet: '<img src="x" onerror="alert(1)" alt="<script>">',
+  suggestion: 'Describe the image\'s content',
+  learnMoreUrl: 'javascript:alert(1)" onclick="alert(1)',
+  framePath: ['https://example.com/<frame>'],
+};
+
+const render = (violations: Violation[]): Document => {
+  const result: ScanResult = {
+    url: 'https://example.com/?q=<b>',
+    timestamp: 0,
+    violations,
+    summary: summarizeViolations(violations),
+  };
+  return new DOMParser().parseFromString(toHtmlReport([result], []), 'text/html');
+};
+
+describe('toHtmlReport', () => {
+  it('renders page text as text, never as markup', () => {
+    const report = render([violation]);
+    const article = report.querySelector('article')!;
+
+    expect(report.querySelectorAll('script, img, b')).toHaveLength(0);
+    expect(report.querySelector('h2')?.textContent).toBe('https://example.com/?q=<b>');
+    expect(report.title).toBe('Accessibility report: https://example.com/?q=<b>');
+    expect(article.querySelector('h4')?.textContent).toBe('Image alt text "<script>alert(1)</script>" looks like a file name');
+    expect(article.querySelector('pre')?.textContent).toBe(violation.htmlSnippet);
+    expect(article.textContent).toContain('https://example.com/<frame>');
+    expect(article.textContent).toContain('img[alt="<script>"]');
+  });
+
+  it('keeps attribute values from breaking out of their quotes', () => {
+    const link = render([violation]).querySelector('article a')!;
+
+    expect(link.getAttribute('href')).toBe(violation.learnMoreUrl);
+    expect(link.hasAttribute('onclick')).toBe(false);
+  });
+
+  it('summarizes the counts by severity', () => {
+    const report = render([violation, { ...violation, severity: Severity.MINOR }]);
+
+    expect(report.querySelector('.stat-critical strong')?.textContent).toBe('1');
+    expect(report.querySelector('.stat-minor strong')?.textContent).toBe('1');
+    expect(report.querySelector('.stat strong')?.textContent).toBe('2');
+  });
+
+  it('says when a page has no violations', () => {
+    expect(render([]).querySelector('.empty')?.textContent).toBe('No violations found.');
+  });
+});
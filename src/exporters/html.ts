@@ -0,0 +1,211 @@
+/**
+ * Self-contained HTML report exporter
+ * Produces a single file with inline CSS and a print stylesheet, for attaching to tickets or saving as PDF
+ */
+
+import { AccessibilityRule, ScanResult, Severity, Violation, WCAGPrinciple } from '../types';
+import { SEVERITY_ORDER, decodeEntities, escapeHtml } from '../utils';
+import { TOOL_INFO } from './shared';
+
+const PRINCIPLE_NAMES: Record<WCAGPrinciple, string> = {
+  [WCAGPrinciple.PERCEIVABLE]: 'Perceivable',
+  [WCAGPrinciple.OPERABLE]: 'Operable',
+  [WCAGPrinciple.UNDERSTANDABLE]: 'Understandable',
+  [WCAGPrinciple.ROBUST]: 'Robust',
+};
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2933; background: #f5f7fa; line-height: 1.5; }
+  main { max-width: 960px; margin: 0 auto; }
+  header.report-header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 24px 28px; border-radius: 10px; margin-bottom: 24px; }
+  header.report-header h1 { margin: 0 0 6px; font-size: 26px; }
+  header.report-header p { margin: 0; opacity: 0.9; }
+  section.page { background: white; border: 1px solid #e4e7eb; border-radius: 10px; padding: 24px 28px; margin-bottom: 24px; }
+  section.page > h2 { margin-top: 0; font-size: 20px; word-break: break-all; }
+  .scan-time { color: #616e7c; margin-top: -8px; }
+  .stats { display: grid; grid-template-columns: repeat(5, 1fr); gap: 12px; margin: 16px 0 24px; }
+  .stat { border-radius: 8px; padding: 12px; text-align: center; background: #f5f7fa; border-top: 4px solid #9aa5b1; }
+  .stat strong { display: block; font-size: 26px; }
+  .stat-critical { border-top-color: #d32f2f; }
+  .stat-serious { border-top-color: #f57c00; }
+  .stat-moderate { border-top-color: #fbc02d; }
+  .stat-minor { border-top-color: #1976d2; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 24px; font-size: 14px; }
+  th, td { text-align: left; padding: 8px 10px; border-bottom: 1px solid #e4e7eb; vertical-align: top; }
+  th { background: #f5f7fa; }
+  td.count { text-align: right; font-variant-numeric: tabular-nums; }
+  .violation { border: 1px solid #e4e7eb; border-left: 5px solid #9aa5b1; border-radius: 8px; padding: 14px 18px; margin-bottom: 14px; }
+  .violation h4 { margin: 0 0 6px; font-size: 16px; }
+  .violation.severity-critical { border-left-color: #d32f2f; }
+  .violation.severity-serious { border-left-color: #f57c00; }
+  .violation.severity-moderate { border-left-color: #fbc02d; }
+  .violation.severity-minor { border-left-color: #1976d2; }
+  .badge { display: inline-block; padding: 1px 8px; border-radius: 10px; font-size: 12px; font-weight: 600; text-transform: uppercase; background: #e4e7eb; }
+  .badge-critical { background: #fdecea; color: #b71c1c; }
+  .badge-serious { background: #fff3e0; color: #e65100; }
+  .badge-moderate { background: #fffde7; color: #8d6e00; }
+  .badge-minor { background: #e3f2fd; color: #0d47a1; }
+  .meta { color: #616e7c; font-size: 13px; margin-bottom: 8px; }
+  .label { font-weight: 600; }
+  pre { background: #1f2933; color: #f5f7fa; padding: 10px 12px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; word-break: break-all; font-size: 12px; }
+  code { font-family: 'SFMono-Regular', Consolas, 'Liberation Mono', monospace; }
+  .empty { color: #2e7d32; font-weight: 600; }
+  footer { text-align: center; color: #616e7c; font-size: 13px; }
+
+  @media print {
+    body { background: white; padding: 0; font-size: 11pt; }
+    header.report-header { background: none; color: black; border: 2px solid black; }
+    section.page { border: none; padding: 0; break-before: page; }
+    section.page:first-of-type { break-before: auto; }
+    .stat, th { background: none; border: 1px solid #9aa5b1; }
+    .violation, tr { break-inside: avoid; }
+    pre { background: none; color: black; border: 1px solid #9aa5b1; }
+    a { color: black; }
+    a[href]::after { content: " (" attr(href) ")"; font-size: 9pt; word-break: break-all; }
+  }
+`;
+
+/**
+ * Escape rule-provided text, which may already contain entities like &lt;label&gt;
+ */
+function escapeMessage(text: string): string {
+  return escapeHtml(decodeEntities(text));
+}
+
+/**
+ * Render scan results as a standalone HTML document
+ */
+export function toHtmlReport(results: ScanResult[], rules: AccessibilityRule[]): string {
+  const title = results.length === 1 ? `Accessibility report: ${results[0].url}` : `Accessibility report: ${results.length} pages`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+<main>
+  <header class="report-header">
+    <h1>Accessibility Audit Report</h1>
+    <p>WCAG 2.2 audit generated by ${escapeHtml(TOOL_INFO.name)} ${escapeHtml(TOOL_INFO.version)} on ${escapeHtml(new Date().toLocaleString())}</p>
+  </header>
+${results.map(result => renderPage(result, rules)).join('\n')}
+  <footer>
+    <p>Automated checks find many, but not all, accessibility issues. Manual testing with assistive technologies is still required.</p>
+  </footer>
+</main>
+</body>
+</html>
+`;
+}
+
+function renderPage(result: ScanResult, rules: AccessibilityRule[]): string {
+  const { summary } = result;
+
+  return `  <section class="page">
+    <h2>${escapeHtml(result.url)}</h2>
+    <p class="scan-time">Scanned ${escapeHtml(new Date(result.timestamp).toLocaleString())}</p>
+    <div class="stats">
+      <div class="stat"><strong>${summary.total}</strong>Total</div>
+${SEVERITY_ORDER.map(severity => `      <div class="stat stat-${severity}"><strong>${summary[severity]}</strong>${capitalize(severity)}</div>`).join('\n')}
+    </div>
+${result.violations.length === 0
+    ? '    <p class="empty">No violations found.</p>'
+    : `${renderPrincipleTable(result)}
+${renderCriterionTable(result.violations, rules)}
+    <h3>Violations</h3>
+${result.violations.map(renderViolation).join('\n')}`}
+  </section>`;
+}
+
+function renderPrincipleTable(result: ScanResult): string {
+  const rows = Object.values(WCAGPrinciple).map(principle => {
+    const violations = result.violations.filter(v => v.principle === principle);
+    return `        <tr><td>${PRINCIPLE_NAMES[principle]}</td>${renderSeverityCells(violations)}<td class="count">${violations.length}</td></tr>`;
+  });
+
+  return `    <h3>By principle</h3>
+    <table>
+      <thead><tr><th>Principle</th>${SEVERITY_ORDER.map(severity => `<th>${capitalize(severity)}</th>`).join('')}<th>Total</th></tr></thead>
+      <tbody>
+${rows.join('\n')}
+      </tbody>
+    </table>`;
+}
+
+function renderCriterionTable(violations: Violation[], rules: AccessibilityRule[]): string {
+  const criteria = Array.from(new Set(violations.map(v => v.wcagCriteria))).sort(compareCriteria);
+
+  const rows = criteria.map(criterion => {
+    const matching = violations.filter(v => v.wcagCriteria === criterion);
+    const ruleNames = Array.from(new Set(matching.map(v => rules.find(rule => rule.id === v.ruleId)?.name || v.ruleId)));
+    return `        <tr><td>${escapeHtml(criterion)}</td><td>${escapeHtml(matching[0].level)}</td><td>${escapeHtml(ruleNames.join(', '))}</td>${renderSeverityCells(matching)}<td class="count">${matching.length}</td></tr>`;
+  });
+
+  return `    <h3>By WCAG criterion</h3>
+    <table>
+      <thead><tr><th>Criterion</th><th>Level</th><th>Rules</th>${SEVERITY_ORDER.map(severity => `<th>${capitalize(severity)}</th>`).join('')}<th>Total</th></tr></thead>
+      <tbody>
+${rows.join('\n')}
+      </tbody>
+    </table>`;
+}
+
+function renderSeverityCells(violations: Violation[]): string {
+  return SEVERITY_ORDER
+    .map(severity => `<td class="count">${violations.filter(v => v.severity === severity).length}</td>`)
+    .join('');
+}
+
+function renderViolation(violation: Violation): string {
+  const lines = [
+    `    <article class="violation severity-${violation.severity}">`,
+    `      <h4>${escapeMessage(violation.message)}</h4>`,
+    `      <div class="meta"><span class="badge badge-${violation.severity}">${capitalize(violation.severity)}</span> WCAG ${escapeHtml(violation.wcagCriteria)} (Level ${escapeHtml(violation.level)}) &middot; ${PRINCIPLE_NAMES[violation.principle]} &middot; <code>${escapeHtml(violation.ruleId)}</code></div>`,
+    `      <p>${escapeMessage(violation.description)}</p>`,
+  ];
+
+  if (violation.framePath?.length) {
+    lines.push(`      <p><span class="label">Frame:</span> ${violation.framePath.map(escapeHtml).join(' &rsaquo; ')}</p>`);
+  }
+
+  lines.push(`      <p><span class="label">Element:</span> <code>${escapeHtml(violation.element)}</code></p>`);
+  if (violation.xpath) {
+    lines.push(`      <p><span class="label">XPath:</span> <code>${escapeHtml(violation.xpath)}</code></p>`);
+  }
+  lines.push(`      <pre><code>${escapeHtml(violation.htmlSnippet)}</code></pre>`);
+
+  if (violation.suggestion) {
+    lines.push(`      <p><span class="label">Suggestion:</span> ${escapeMessage(violation.suggestion)}</p>`);
+  }
+
+  if (violation.learnMoreUrl) {
+    lines.push(`      <p><a href="${escapeHtml(violation.learnMoreUrl)}">Learn more about WCAG ${escapeHtml(violation.wcagCriteria)}</a></p>`);
+  }
+
+  lines.push('    </article>');
+  return lines.join('\n');
+}
+
+/**
+ * Order criteria numerically, e.g. 1.4.3 before 1.4.11
+ */
+function compareCriteria(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
+
+function capitalize(text: Severity | string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,91 @@
+/**
+ * Report exporters
+ * Turn scan results into downloadable reports for the popup, the CLI and library users
+ */
+
+import { AccessibilityRule, ScanResult } from '../types';
+import { getRegisteredRules } from '../rules/registry';
+import { toSarif } from './sarif';
+import { toHtmlReport } from './html';
+import { toCsv } from './csv';
+import { toJUnit } from './junit';
+import { toExportedViolation } from './shared';
+
+export type ExportFormat = 'json' | 'sarif' | 'html' | 'csv' | 'junit';
+
+/**
+ * A rendered report, ready to be written to a file or downloaded
+ */
+export interface ExportedReport {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Display names for the export formats, in the order they are offered
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  sarif: 'SARIF',
+  html: 'HTML report',
+  csv: 'CSV',
+  junit: 'JUnit XML',
+};
+
+/**
+ * Export one or more scan results in the given format
+ * @param rules The rules that were run, used for rule metadata (defaults to the registered rules)
+ */
+export function exportScanResults(
+  results: ScanResult | ScanResult[],
+  format: ExportFormat,
+  rules: AccessibilityRule[] = getRegisteredRules()
+): ExportedReport {
+  const resultList = Array.isArray(results) ? results : [results];
+
+  switch (format) {
+    case 'json': {
+      const exported = resultList.map(result => ({
+        timestamp: new Date(result.timestamp).toISOString(),
+        url: result.url || 'unknown',
+        summary: result.summary,
+        violations: result.violations.map(toExportedViolation),
+      }));
+
+      return {
+        content: JSON.stringify(exported.length === 1 ? exported[0] : exported, null, 2),
+        mimeType: 'application/json',
+        extension: 'json',
+      };
+    }
+    case 'sarif':
+      return {
+        content: JSON.stringify(toSarif(resultList, rules), null, 2),
+        mimeType: 'application/sarif+json',
+        extension: 'sarif',
+      };
+    case 'html':
+      return {
+        content: toHtmlReport(resultList, rules),
+        mimeType: 'text/html',
+        extension: 'html',
+      };
+    case 'csv':
+      return {
+        content: toCsv(resultList),
+        mimeType: 'text/csv',
+        extension: 'csv',
+      };
+    case 'junit':
+      return {
+        content: toJUnit(resultList, rules),
+        mimeType: 'application/xml',
+        extension: 'xml',
+      };
+    default:
+      throw new Error(`Unknown export format "${format}". Expected ${Object.keys(EXPORT_FORMATS).join(', ')}.`);
+  }
+}
+
+export { toSarif, toHtmlReport, toCsv, toJUnit };
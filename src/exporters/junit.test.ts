@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { AccessibilityRule, ScanResult, Severity, Violation, WCAGLevel, WCAGPrinciple } from '../types';
+import { summarizeViolations } from '../utils';
+import { toJUnit } from './junit';
+
+const rule = (id: string): AccessibilityRule => ({
+  id,
+  name: `${id} name`,
+  description: `${id} description`,
+  principle: WCAGPrinciple.ROBUST,
+  wcagCriteria: '4.1.2',
+  level: WCAGLevel.A,
+  check: () => [],
+});
+
+const violation = (ruleId: string, overrides: Partial<Violation> = {}): Violation => ({
+  id: `${ruleId}-0`,
+  ruleId,
+  principle: WCAGPrinciple.ROBUST,
+  wcagCriteria: '4.1.2',
+  level: WCAGLevel.A,
+  severity: Severity.SERIOUS,
+  message: 'Invalid ARIA attribute',
+  description: 'The attribute is not allowed here',
+  element: 'div',
+  htmlSnippet: '<div aria-foo="1"></div>',
+  ...overrides,
+});
+
+const scan = (url: string, violations: Violation[]): ScanResult => ({
+  url,
+  timestamp: 0,
+  violations,
+  summary: summarizeViolations(violations),
+});
+
+const parse = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+describe('toJUnit', () => {
+  it('counts one test per rule and one failure per failing rule on each page', () => {
+    const report = parse(toJUnit([
+      scan('https://example.com/', [violation('first'), violation('first', { id: 'first-1' }), violation('second')]),
+      scan('https://example.com/about', [violation('second')]),
+    ], [rule('first'), rule('second'), rule('third')]));
+    const suites = Array.from(report.querySelectorAll('testsuite'));
+
+    expect(report.documentElement.getAttribute('tests')).toBe('6');
+    expect(report.documentElement.getAttribute('failures')).toBe('3');
+    expect(suites.map(suite => [suite.getAttribute('tests'), suite.getAttribute('failures')])).toEqual([['3', '2'], ['3', '1']]);
+    expect(suites[0].querySelectorAll('testcase')[0].querySelectorAll('failure')).toHaveLength(2);
+    expect(suites[0].querySelectorAll('testcase')[2].children).toHaveLength(0);
+  });
+
+  it('escapes page text into well-formed XML', () => {
+    const xml = toJUnit([scan('https://example.com/?a=1&b=<2>', [violation('first', {
+      message: 'Role &quot;&lt;tab&gt;&quot; isn\'t valid',
+      htmlSnippet: '<div role="<tab>">\u0007]]></div>',
+    })])], [rule('first')]);
+    const report = parse(xml);
+    const failure = report.querySelector('failure')!;
+
+    expect(report.querySelector('parsererror')).toBeNull();
+    expect(report.querySelector('testsuite')?.getAttribute('name')).toBe('https://example.com/?a=1&b=<2>');
+    expect(failure.getAttribute('message')).toBe('Role "<tab>" isn\'t valid');
+    expect(failure.textContent).toContain('HTML: <div role="<tab>">]]></div>');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * JUnit XML exporter
+ * One test suite per scanned page, one test case per rule and one failure per violation,
+ * so CI systems show accessibility results in their test tabs
+ */
+
+import { AccessibilityRule, ScanResult, Violation } from '../types';
+import { decodeEntities } from '../utils';
+import { TOOL_INFO, getReportedRules } from './shared';
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Render scan results as JUnit XML
+ */
+export function toJUnit(results: ScanResult[], rules: AccessibilityRule[]): string {
+  const allViolations = results.flatMap(result => result.violations);
+  const reportedRules = getReportedRules(rules, allViolations);
+
+  const suites = results.map(result => {
+    const failingRules = reportedRules.filter(rule => result.violations.some(v => v.ruleId === rule.id));
+    const timestamp = new Date(result.timestamp).toISOString().replace(/\.\d{3}Z$/, '');
+
+    const testCases = reportedRules.map(rule => {
+      const violations = result.violations.filter(v => v.ruleId === rule.id);
+      const attributes = `classname="${escapeXml(`${TOOL_INFO.name}.${rule.principle}`)}" name="${escapeXml(`${rule.id} (WCAG ${rule.wcagCriteria}, Level ${rule.level}): ${rule.name}`)}" time="0"`;
+
+      if (violations.length === 0) {
+        return `    <testcase ${attributes}/>`;
+      }
+
+      return [
+        `    <testcase ${attributes}>`,
+        ...violations.map(renderFailure),
+        '    </testcase>',
+      ].join('\n');
+    });
+
+    return [
+      `  <testsuite name="${escapeXml(result.url)}" tests="${reportedRules.length}" failures="${failingRules.length}" errors="0" skipped="0" time="0" timestamp="${timestamp}">`,
+      ...testCases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  const totalTests = reportedRules.length * results.length;
+  const totalFailures = results.reduce(
+    (count, result) => count + reportedRules.filter(rule => result.violations.some(v => v.ruleId === rule.id)).length,
+    0
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(`${TOOL_INFO.name} accessibility audit`)}" tests="${totalTests}" failures="${totalFailures}" errors="0" time="0">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function renderFailure(violation: Violation): string {
+  const details = [
+    decodeEntities(violation.description),
+    '',
+    `Severity: ${violation.severity}`,
+    `Element: ${violation.element}`,
+    ...(violation.xpath ? [`XPath: ${violation.xpath}`] : []),
+    ...(violation.framePath?.length ? [`Frame: ${violation.framePath.join(' > ')}`] : []),
+    `HTML: ${violation.htmlSnippet}`,
+    ...(violation.suggestion ? [`Suggestion: ${decodeEntities(violation.suggestion)}`] : []),
+    ...(violation.learnMoreUrl ? [`Learn more: ${violation.learnMoreUrl}`] : []),
+  ];
+
+  return `      <failure message="${escapeXml(decodeEntities(violation.message))}" type="${violation.severity}">${escapeXml(details.join('\n'))}</failure>`;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { AccessibilityRule, ScanResult, Severity, Violation, WCAGLevel, WCAGPrinciple } from '../types';
+import { summarizeViolations } from '../utils';
+import { toSarif } from './sarif';
+
+const rule = (id: string): AccessibilityRule => ({
+  id,
+  name: `${id} name`,
+  description: `${id} description`,
+  principle: WCAGPrinciple.PERCEIVABLE,
+  wcagCriteria: '1.1.1',
+  level: WCAGLevel.A,
+  check: () => [],
+});
+
+const violation = (ruleId: string, overrides: Partial<Violation> = {}): Violation => ({
+  id: `${ruleId}-0`,
+  ruleId,
+  principle: WCAGPrinciple.PERCEIVABLE,
+  wcagCriteria: '1.1.1',
+  level: WCAGLevel.A,
+  severity: Severity.SERIOUS,
+  message: 'Image missing alt text',
+  description: 'The &lt;img&gt; has no alt attribute',
+  element: 'main > img',
+  htmlSnippet: '<img src="chart.png">',
+  ...overrides,
+});
+
+const scan = (url: string, violations: Violation[]): ScanResult => ({
+  url,
+  timestamp: 0,
+  violations,
+  summary: summarizeViolations(violations),
+});
+
+// The parts of the log these tests read
+interface SarifLog {
+  runs: {
+    tool: { driver: { rules: { id: string }[] } };
+    artifacts: { location: { uri: string } }[];
+    results: {
+      ruleId: string;
+      ruleIndex: number;
+      level: string;
+      message: { text: string };
+      locations: { physicalLocation: { artifactLocation: { uri: string; index: number } } }[];
+      partialFingerprints?: Record<string, string>;
+    }[];
+  }[];
+}
+
+describe('toSarif', () => {
+  const log = toSarif([
+    scan('https://example.com/', [
+      violation('second', { fingerprint: 'abc123' }),
+      violation('first', { severity: Severity.MINOR, framePath: ['https://example.com/embed'] }),
+      violation('custom:unknown'),
+    ]),
+    scan('https://example.com/about', [violation('first')]),
+  ], [rule('first'), rule('second')]) as SarifLog;
+  const [run] = log.runs;
+
+  it('points each result at its rule in the driver', () => {
+    expect(run.tool.driver.rules.map(descriptor => descriptor.id)).toEqual(['first', 'second', 'custom:unknown']);
+    run.results.forEach(result => {
+      expect(run.tool.driver.rules[result.ruleIndex].id).toBe(result.ruleId);
+    });
+  });
+
+  it('lists every scanned page and frame as an artifact', () => {
+    expect(run.artifacts.map(artifact => artifact.location.uri))
+      .toEqual(['https://example.com/', 'https://example.com/about', 'https://example.com/embed']);
+    run.results.forEach(result => {
+      const { uri, index } = result.locations[0].physicalLocation.artifactLocation;
+      expect(run.artifacts[index].location.uri).toBe(uri);
+    });
+    expect(run.results[1].locations[0].physicalLocation.artifactLocation.uri).toBe('https://example.com/embed');
+  });
+
+  it('carries fingerprints so code scanning can track issues across runs', () => {
+    expect(run.results[0].partialFingerprints).toEqual({ 'allInclusive/v1': 'abc123' });
+    expect(run.results[1]).not.toHaveProperty('partialFingerprints');
+  });
+
+  it('maps severities to SARIF levels and decodes messages', () => {
+    expect(run.results.map(result => result.level)).toEqual(['error', 'note', 'error', 'error']);
+    expect(run.results[0].message.text).toBe('Image missing alt text. The <img> has no alt attribute');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * SARIF 2.1.0 exporter
+ * https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ * Each AccessibilityRule becomes a reporting descriptor and each Violation a result,
+ * so GitHub code scanning and other SARIF consumers can ingest audits directly.
+ */
+
+import { AccessibilityRule, ScanResult, Severity } from '../types';
+import { decodeEntities } from '../utils';
+import { TOOL_INFO, getReportedRules } from './shared';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+const SARIF_LEVELS: Record<Severity, SarifLevel> = {
+  [Severity.CRITICAL]: 'error',
+  [Severity.SERIOUS]: 'error',
+  [Severity.MODERATE]: 'warning',
+  [Severity.MINOR]: 'note',
+};
+
+// partialFingerprints key; bump the version if the fingerprint algorithm changes
+const SARIF_FINGERPRINT_KEY = 'allInclusive/v1';
+
+/**
+ * Convert scan results to a SARIF log with a single run
+ */
+export function toSarif(results: ScanResult[], rules: AccessibilityRule[]): object {
+  const violations = results.flatMap(result => result.violations);
+  const driverRules = getReportedRules(rules, violations);
+  const ruleIndex = new Map(driverRules.map((rule, index) => [rule.id, index]));
+
+  // One artifact per scanned document, including frames
+  const artifactUris: string[] = [];
+  const getArtifactIndex = (uri: string): number => {
+    if (!artifactUris.includes(uri)) {
+      artifactUris.push(uri);
+    }
+    return artifactUris.indexOf(uri);
+  };
+  results.forEach(result => getArtifactIndex(result.url));
+
+  const sarifResults = results.flatMap(result => result.violations.map(violation => {
+    const uri = violation.framePath?.length ? violation.framePath[violation.framePath.length - 1] : result.url;
+
+    return {
+      ruleId: violation.ruleId,
+      ruleIndex: ruleIndex.get(violation.ruleId),
+      level: SARIF_LEVELS[violation.severity],
+      message: {
+        text: `${decodeEntities(violation.message)}. ${decodeEntities(violation.description)}`,
+      },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri, index: getArtifactIndex(uri) },
+          region: {
+            snippet: { text: violation.htmlSnippet },
+          },
+        },
+        logicalLocations: [{
+          fullyQualifiedName: violation.element,
+          kind: 'element',
+          ...(violation.xpath ? { properties: { xpath: violation.xpath } } : {}),
+        }],
+      }],
+      ...(violation.fingerprint ? { partialFingerprints: { [SARIF_FINGERPRINT_KEY]: violation.fingerprint } } : {}),
+      properties: {
+        severity: violation.severity,
+        principle: violation.principle,
+        wcagCriteria: violation.wcagCriteria,
+        wcagLevel: violation.level,
+        ...(violation.suggestion ? { suggestion: decodeEntities(violation.suggestion) } : {}),
+        ...(violation.framePath?.length ? { framePath: violation.framePath } : {}),
+      },
+    };
+  }));
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_INFO.name,
+          version: TOOL_INFO.version,
+          informationUri: TOOL_INFO.informationUri,
+          rules: driverRules.map(rule => ({
+            id: rule.id,
+            name: toPascalCase(rule.id),
+            shortDescription: { text: rule.name },
+            fullDescription: { text: rule.description },
+            helpUri: violations.find(v => v.ruleId === rule.id && v.learnMoreUrl)?.learnMoreUrl
+              || 'https://www.w3.org/WAI/WCAG22/quickref/',
+            properties: {
+              tags: ['accessibility', 'wcag', `wcag-${rule.wcagCriteria}`, rule.principle, `level-${rule.level}`],
+              principle: rule.principle,
+              wcagCriteria: rule.wcagCriteria,
+              wcagLevel: rule.level,
+            },
+          })),
+        },
+      },
+      artifacts: artifactUris.map(uri => ({ location: { uri } })),
+      results: sarifResults,
+    }],
+  };
+}
+
+function toPascalCase(id: string): string {
+  return id.split(/[-_]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+}
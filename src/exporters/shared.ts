@@ -0,0 +1,48 @@
+/**
+ * Helpers shared by the report exporters
+ */
+
+import { AccessibilityRule, Violation } from '../types';
+
+// Replaced with the version in package.json at build time (see webpack.config.js)
+declare const __VERSION__: string;
+
+/**
+ * Tool metadata embedded in exported reports
+ */
+export const TOOL_INFO = {
+  name: 'All-Inclusive',
+  version: __VERSION__,
+  informationUri: 'https://github.com/tathan08/all-inclusive',
+};
+
+/**
+ * A violation without its element registry token, which only means something in the page that ran the scan
+ */
+export function toExportedViolation(violation: Violation): Omit<Violation, 'elementRef'> {
+  const { elementRef, ...exported } = violation;
+  return exported;
+}
+
+/**
+ * The rules that were run, plus any rule that reported a violation but isn't in the list
+ */
+export function getReportedRules(rules: AccessibilityRule[], violations: Violation[]): AccessibilityRule[] {
+  const reported = [...rules];
+
+  violations.forEach(violation => {
+    if (!reported.some(rule => rule.id === violation.ruleId)) {
+      reported.push({
+        id: violation.ruleId,
+        name: violation.ruleId,
+        description: violation.ruleId,
+        principle: violation.principle,
+        wcagCriteria: violation.wcagCriteria,
+        level: violation.level,
+        check: () => [],
+      });
+    }
+  });
+
+  return reported;
+}
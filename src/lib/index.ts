@@ -0,0 +1,30 @@
+/**
+ * Library entry point for using the All-Inclusive scanning engine outside the extension,
+ * e.g. from Playwright or Jest tests. Has no dependency on chrome.* APIs.
+ *
+ * @example
+ * import { runAudit, WCAGLevel } from 'all-inclusive';
+ *
+ * const result = runAudit(document, { level: WCAGLevel.AA, exclude: ['color-contrast'] });
+ */
+
+export { runAudit, selectRules, isWithinLevel } from '../engine';
+export type { AuditOptions } from '../engine';
+export { allRules, perceivableRules, operableRules, understandableRules, robustRules } from '../rules';
+export { registerRules, unregisterRules, getRegisteredRules, getActiveRules, setRuleEnabled, isRuleEnabled } from '../rules/registry';
+export { parseDeclarativeRules, validateDeclarativeRules, compileDeclarativeRules } from '../rules/declarative';
+export { getRuleOptions, validateRuleOptions, parseRuleConfig } from '../rules/config';
+export type { RuleConfigFile } from '../rules/config';
+export { summarizeViolations, getElementSelector, getElementXPath } from '../utils';
+export { computeAccessibleName, computeAccessibleDescription } from '../utils/accname';
+export { findElement } from '../utils/registry';
+export { WCAGPrinciple, WCAGLevel, Severity } from '../types';
+export type { Violation, ScanResult, ScanSummary, AccessibilityRule, Suppression, SuppressionStatus, Baseline } from '../types';
+export type { RuleOptionsConfig, ImageAltTextOptions, LinkPurposeOptions, BypassBlocksOptions, FocusOrderOptions, RequiredFieldsOptions } from '../types';
+export type { DeclarativeRule, DeclarativeRuleSet, DeclarativeCondition, DeclarativeConditionSource, DeclarativeOperator } from '../types';
+export { applySuppressions, parseBaseline, createBaseline, isSuppressionActive } from '../utils/suppressions';
+export type { SuppressedViolation } from '../utils/suppressions';
+export { exportScanResults, toSarif, toHtmlReport, toCsv, toJUnit, EXPORT_FORMATS } from '../exporters';
+export type { ExportFormat, ExportedReport } from '../exporters';
+export { toHaveNoA11yViolations, a11yMatchers } from '../matchers';
+export type { A11yMatcherOptions, A11yMatcherResult, A11yMatchers } from '../matchers';
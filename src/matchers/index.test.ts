@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Severity } from '../types';
+import { A11yMatchers, a11yMatchers } from './index';
+
+declare module 'vitest' {
+  interface Assertion<T> extends A11yMatchers<T> {}
+}
+
+expect.extend(a11yMatchers);
+
+describe('toHaveNoA11yViolations', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <main>
+        <form id="signup"><label>Email <input type="email"></label><button>Sign up</button></form>
+        <div id="promo"><a href="/sale">click here</a><input name="code"></div>
+      </main>
+    `;
+  });
+
+  it('passes for accessible markup', () => {
+    expect(document.getElementById('signup')).toHaveNoA11yViolations();
+  });
+
+  it('fails with the violations listed and their messages decoded', () => {
+    const result = a11yMatchers.toHaveNoA11yViolations(document.getElementById('promo'));
+
+    expect(result.pass).toBe(false);
+    expect(result.message()).toContain('Expected no accessibility violations, but found 2:');
+    expect(result.message()).toContain('[critical] Form input missing label');
+    expect(result.message()).toContain('Rule: link-purpose');
+    expect(result.message()).toContain('Suggestion: Add a <label> element');
+  });
+
+  it('skips disabled rules and violations below the failOn severity', () => {
+    const promo = document.getElementById('promo');
+
+    expect(promo).toHaveNoA11yViolations({ disableRules: ['form-labels', 'link-purpose'] });
+    expect(promo).not.toHaveNoA11yViolations({ failOn: Severity.CRITICAL });
+    expect(promo).toHaveNoA11yViolations({ disableRules: ['form-labels'], failOn: Severity.CRITICAL });
+  });
+
+  it('fails for values that are not elements or documents', () => {
+    const result = a11yMatchers.toHaveNoA11yViolations('<main></main>');
+
+    expect(result.pass).toBe(false);
+    expect(result.message()).toBe('toHaveNoA11yViolations expects an Element or Document, but received string');
+  });
+});
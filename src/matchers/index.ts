@@ -0,0 +1,104 @@
+/**
+ * Jest/Vitest matcher built on the scanning engine
+ *
+ * @example
+ * import { a11yMatchers } from 'all-inclusive';
+ * expect.extend(a11yMatchers);
+ *
+ * expect(container).toHaveNoA11yViolations({ disableRules: ['color-contrast'], failOn: Severity.SERIOUS });
+ */
+
+import { Severity, Violation } from '../types';
+import { AuditOptions, runAudit } from '../engine';
+import { decodeEntities, isAtLeastSeverity } from '../utils';
+
+/**
+ * Options for toHaveNoA11yViolations
+ */
+export interface A11yMatcherOptions extends AuditOptions {
+  disableRules?: string[]; // Rule IDs to skip for this assertion (combined with `exclude`)
+  failOn?: Severity; // Only fail on violations at or above this severity (default: minor, i.e. all)
+}
+
+/**
+ * Result shape shared by Jest and Vitest custom matchers
+ */
+export interface A11yMatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Typings for registering the matcher, e.g.
+ * `declare global { namespace jest { interface Matchers<R> extends A11yMatchers<R> {} } }`
+ */
+export interface A11yMatchers<R = unknown> {
+  toHaveNoA11yViolations(options?: A11yMatcherOptions): R;
+}
+
+/**
+ * Assert that a rendered container (or document) has no accessibility violations
+ */
+export function toHaveNoA11yViolations(received: unknown, options: A11yMatcherOptions = {}): A11yMatcherResult {
+  if (!isAuditTarget(received)) {
+    return {
+      pass: false,
+      message: () => `toHaveNoA11yViolations expects an Element or Document, but received ${describeValue(received)}`,
+    };
+  }
+
+  const { disableRules = [], failOn = Severity.MINOR, ...auditOptions } = options;
+  const result = runAudit(received, {
+    ...auditOptions,
+    exclude: [...(auditOptions.exclude || []), ...disableRules],
+  });
+
+  const failures = result.violations.filter(v => isAtLeastSeverity(v.severity, failOn));
+
+  if (failures.length === 0) {
+    return {
+      pass: true,
+      message: () => `Expected accessibility violations at or above "${failOn}" severity, but none were found`,
+    };
+  }
+
+  return {
+    pass: false,
+    message: () => formatFailures(failures, failOn),
+  };
+}
+
+/**
+ * Matchers object ready to pass to `expect.extend`
+ */
+export const a11yMatchers = { toHaveNoA11yViolations };
+
+function isAuditTarget(value: unknown): value is Element | Document {
+  return typeof value === 'object' && value !== null && 'querySelectorAll' in value && 'nodeType' in value;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (typeof value === 'object') return value.constructor?.name || 'object';
+  return typeof value;
+}
+
+/**
+ * Pretty-print violations for the assertion failure output
+ */
+function formatFailures(violations: Violation[], failOn: Severity): string {
+  const threshold = failOn === Severity.MINOR ? '' : ` at or above "${failOn}" severity`;
+  const lines = [`Expected no accessibility violations${threshold}, but found ${violations.length}:`];
+
+  violations.forEach((violation, index) => {
+    lines.push('');
+    lines.push(`  ${index + 1}. [${violation.severity}] ${decodeEntities(violation.message)}`);
+    lines.push(`     Rule: ${violation.ruleId} (WCAG ${violation.wcagCriteria}, Level ${violation.level})`);
+    lines.push(`     Element: ${violation.htmlSnippet.replace(/\s+/g, ' ')}`);
+    if (violation.suggestion) {
+      lines.push(`     Suggestion: ${decodeEntities(violation.suggestion)}`);
+    }
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,458 @@
+/**
+ * Options page for All-Inclusive
+ * Edits the settings in chrome.storage that the popup, content script and background worker read
+ */
+
+import { AccessibilityRule, ExtensionSettings, WCAGLevel, WCAGPrinciple } from '../types';
+import { getRegisteredRules, getRuleNamespace } from '../rules/registry';
+import { registerBundledRules } from '../rules/bundled';
+import { loadDeclarativeRules, validateDeclarativeRules } from '../rules/declarative';
+import { getRuleOptions, parseRuleConfig, RuleConfigFile, validateRuleOptions } from '../rules/config';
+import { isWithinLevel } from '../engine';
+import { DEFAULT_SETTINGS, normalizeSettings } from '../utils/settings';
+
+// DOM Elements
+const autoScan = document.getElementById('autoScan') as HTMLInputElement;
+const targetLevel = document.getElementById('targetLevel') as HTMLSelectElement;
+const showMinorIssues = document.getElementById('showMinorIssues') as HTMLInputElement;
+const rulesList = document.getElementById('rulesList') as HTMLDivElement;
+const resetButton = document.getElementById('resetButton') as HTMLButtonElement;
+const saveStatus = document.getElementById('saveStatus') as HTMLSpanElement;
+const customRules = document.getElementById('customRules') as HTMLTextAreaElement;
+const customRulesErrors = document.getElementById('customRulesErrors') as HTMLUListElement;
+const saveRulesButton = document.getElementById('saveRulesButton') as HTMLButtonElement;
+const exampleRulesButton = document.getElementById('exampleRulesButton') as HTMLButtonElement;
+const rulesStatus = document.getElementById('rulesStatus') as HTMLSpanElement;
+const configErrors = document.getElementById('configErrors') as HTMLUListElement;
+const exportConfigButton = document.getElementById('exportConfigButton') as HTMLButtonElement;
+const importConfigButton = document.getElementById('importConfigButton') as HTMLButtonElement;
+const configFile = document.getElementById('configFile') as HTMLInputElement;
+const configStatus = document.getElementById('configStatus') as HTMLSpanElement;
+
+const PRINCIPLE_LABELS: Record<WCAGPrinciple, string> = {
+  [WCAGPrinciple.PERCEIVABLE]: 'Perceivable',
+  [WCAGPrinciple.OPERABLE]: 'Operable',
+  [WCAGPrinciple.UNDERSTANDABLE]: 'Understandable',
+  [WCAGPrinciple.ROBUST]: 'Robust',
+};
+
+// Labels for rule options; options without one are shown by name
+const OPTION_LABELS: Record<string, { label: string; hint?: string }> = {
+  genericTerms: { label: 'Generic alt texts', hint: 'One per line. Alt texts that say nothing about the image.' },
+  filenamePatterns: { label: 'File name patterns', hint: 'One regular expression per line, matched case-insensitively.' },
+  decorativeSize: { label: 'Decorative size (px)', hint: 'Images this small in either dimension count as decorative.' },
+  vagueTexts: { label: 'Vague link texts', hint: 'One per line, e.g. "click here".' },
+  linkThreshold: { label: 'Navigation link threshold', hint: 'Pages need a skip link once their navigation has more links than this.' },
+  skipLinkTexts: { label: 'Skip link words', hint: 'One per line. In-page links containing one of these count as skip links.' },
+  requiredMarkerPattern: { label: 'Required marker pattern', hint: 'Regular expression, matched case-insensitively against field labels.' },
+};
+
+const CONFIG_FILENAME = 'all-inclusive.config.json';
+
+// Shown by "Insert example": the two kinds of checks teams ask for most
+const EXAMPLE_RULES = {
+  namespace: 'team',
+  rules: [
+    {
+      id: 'testid-required',
+      name: 'Interactive controls need a data-testid',
+      selector: 'button, a[href], input, select, textarea',
+      conditions: [{ source: 'attribute', name: 'data-testid', operator: 'missing' }],
+      principle: 'robust',
+      wcagCriteria: '4.1.2',
+      level: 'A',
+      severity: 'minor',
+      message: 'Control has no data-testid',
+      suggestion: 'Add a data-testid attribute so automated tests can find this control.',
+    },
+    {
+      id: 'icon-font-label',
+      name: 'Icon fonts need a text alternative',
+      selector: 'i, span',
+      conditions: [
+        { source: 'style', name: 'font-family', operator: 'matches', value: 'FontAwesome|Material Icons', ignoreCase: true },
+        { source: 'accessibleName', operator: 'empty' },
+      ],
+      principle: 'perceivable',
+      wcagCriteria: '1.1.1',
+      level: 'A',
+      severity: 'serious',
+      message: 'Icon font glyph has no text alternative',
+      suggestion: 'Add aria-label to the control, or aria-hidden="true" to the icon if it is decorative.',
+    },
+  ],
+};
+
+let settings: ExtensionSettings = DEFAULT_SETTINGS;
+let statusTimer: ReturnType<typeof setTimeout> | undefined;
+const openRuleOptions = new Set<string>(); // Keeps option panels open when the page re-renders after a save
+
+/**
+ * Initialize the options page
+ */
+async function init() {
+  registerBundledRules();
+
+  const { settings: stored, customRules: storedRules } = await chrome.storage.local.get(['settings', 'customRules']);
+  settings = normalizeSettings(stored);
+  customRules.value = storedRules || '';
+  loadDeclarativeRules(storedRules);
+  render();
+
+  autoScan.addEventListener('change', () => save({ autoScan: autoScan.checked }));
+  showMinorIssues.addEventListener('change', () => save({ showMinorIssues: showMinorIssues.checked }));
+  targetLevel.addEventListener('change', () => save({ targetLevel: targetLevel.value as WCAGLevel }));
+  resetButton.addEventListener('click', () => save(DEFAULT_SETTINGS));
+  saveRulesButton.addEventListener('click', saveCustomRules);
+  exampleRulesButton.addEventListener('click', () => {
+    customRules.value = JSON.stringify(EXAMPLE_RULES, null, 2);
+    showRuleErrors([]);
+  });
+  exportConfigButton.addEventListener('click', exportConfig);
+  importConfigButton.addEventListener('click', () => configFile.click());
+  configFile.addEventListener('change', importConfig);
+}
+
+/**
+ * Show the current settings
+ */
+function render() {
+  autoScan.checked = settings.autoScan;
+  showMinorIssues.checked = settings.showMinorIssues;
+  targetLevel.value = settings.targetLevel;
+  renderRules();
+}
+
+/**
+ * List every rule with a checkbox to turn it on or off: built-in rules by principle, then custom rules by namespace
+ */
+function renderRules() {
+  rulesList.innerHTML = '';
+
+  const rules = getRegisteredRules();
+  const builtInRules = rules.filter(rule => getRuleNamespace(rule.id) === null);
+
+  Object.values(WCAGPrinciple).forEach(principle => {
+    renderRuleGroup(PRINCIPLE_LABELS[principle], builtInRules.filter(rule => rule.principle === principle));
+  });
+
+  const namespaces = Array.from(new Set(rules.map(rule => getRuleNamespace(rule.id)).filter(Boolean)));
+  namespaces.forEach(namespace => {
+    renderRuleGroup(`Custom rules: ${namespace}`, rules.filter(rule => getRuleNamespace(rule.id) === namespace));
+  });
+}
+
+function renderRuleGroup(title: string, rules: AccessibilityRule[]) {
+  if (rules.length === 0) return;
+
+  const group = document.createElement('div');
+  group.className = 'rules-group';
+
+  const heading = document.createElement('h3');
+  heading.textContent = title;
+  group.appendChild(heading);
+
+  rules.forEach(rule => group.appendChild(createRuleItem(rule)));
+  rulesList.appendChild(group);
+}
+
+function createRuleItem(rule: AccessibilityRule): HTMLElement {
+  const item = document.createElement('div');
+  item.className = 'rule-item';
+  item.appendChild(createRuleToggle(rule));
+
+  if (rule.defaultOptions && Object.keys(rule.defaultOptions).length > 0) {
+    item.appendChild(createRuleOptions(rule));
+  }
+
+  return item;
+}
+
+function createRuleToggle(rule: AccessibilityRule): HTMLElement {
+  const aboveLevel = !isWithinLevel(rule.level, settings.targetLevel);
+
+  const label = document.createElement('label');
+  label.className = 'setting';
+  label.classList.toggle('above-level', aboveLevel);
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.checked = !settings.disabledRules.includes(rule.id);
+  checkbox.addEventListener('change', () => {
+    const disabledRules = settings.disabledRules.filter(id => id !== rule.id);
+    save({ disabledRules: checkbox.checked ? disabledRules : [...disabledRules, rule.id] });
+  });
+
+  const text = document.createElement('span');
+  text.className = 'setting-text';
+  text.innerHTML = `
+    <strong></strong>
+    <small></small>
+    <span class="rule-meta">WCAG ${rule.wcagCriteria} (Level ${rule.level}) · <code>${rule.id}</code></span>
+    ${aboveLevel ? `<span class="rule-note">Not checked at Level ${settings.targetLevel}</span>` : ''}
+  `;
+  text.querySelector('strong')!.textContent = rule.name;
+  text.querySelector('small')!.textContent = rule.description;
+
+  label.appendChild(checkbox);
+  label.appendChild(text);
+  return label;
+}
+
+/**
+ * A collapsible form for a rule's options, showing the configured values (or the defaults)
+ */
+function createRuleOptions(rule: AccessibilityRule): HTMLElement {
+  const defaults = rule.defaultOptions as Record<string, unknown>;
+  const current = getRuleOptions(rule, settings.ruleOptions) as Record<string, unknown>;
+  const customized = Boolean(settings.ruleOptions[rule.id]);
+
+  const details = document.createElement('details');
+  details.className = 'rule-options';
+  details.open = openRuleOptions.has(rule.id);
+  details.addEventListener('toggle', () => {
+    if (details.open) {
+      openRuleOptions.add(rule.id);
+    } else {
+      openRuleOptions.delete(rule.id);
+    }
+  });
+
+  const summary = document.createElement('summary');
+  summary.textContent = customized ? 'Options (customized)' : 'Options';
+  details.appendChild(summary);
+
+  const fields = document.createElement('div');
+  fields.className = 'rule-options-fields';
+
+  const readers: Array<[string, () => unknown]> = Object.keys(defaults).map(name => {
+    const { label, hint } = OPTION_LABELS[name] || { label: name };
+    const field = document.createElement('label');
+    field.className = 'rule-option';
+
+    const title = document.createElement('strong');
+    title.textContent = label;
+    field.appendChild(title);
+
+    if (hint) {
+      const small = document.createElement('small');
+      small.textContent = hint;
+      field.appendChild(small);
+    }
+
+    let read: () => unknown;
+    if (Array.isArray(defaults[name])) {
+      const textarea = document.createElement('textarea');
+      textarea.rows = 4;
+      textarea.spellcheck = false;
+      textarea.value = (current[name] as string[]).join('\n');
+      field.appendChild(textarea);
+      read = () => textarea.value.split('\n').map(line => line.trim()).filter(Boolean);
+    } else if (typeof defaults[name] === 'number') {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0';
+      input.value = String(current[name]);
+      field.appendChild(input);
+      read = () => input.valueAsNumber;
+    } else {
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.spellcheck = false;
+      input.value = String(current[name]);
+      field.appendChild(input);
+      read = () => input.value;
+    }
+
+    fields.appendChild(field);
+    return [name, read];
+  });
+
+  const errors = document.createElement('ul');
+  errors.className = 'rules-errors hidden';
+  errors.setAttribute('role', 'alert');
+  fields.appendChild(errors);
+
+  const actions = document.createElement('div');
+  actions.className = 'rules-editor-actions';
+
+  const saveButton = document.createElement('button');
+  saveButton.className = 'btn-secondary';
+  saveButton.textContent = 'Save options';
+  saveButton.addEventListener('click', () => {
+    // Only values that differ from the defaults are stored, so later changes to the defaults still apply
+    const overrides: Record<string, unknown> = {};
+    readers.forEach(([name, read]) => {
+      const value = read();
+      if (JSON.stringify(value) !== JSON.stringify(defaults[name])) {
+        overrides[name] = value;
+      }
+    });
+
+    const problems = validateRuleOptions({ [rule.id]: overrides }, [rule]);
+    showErrorList(errors, problems);
+    if (problems.length === 0) {
+      saveRuleOptions(rule.id, overrides);
+    }
+  });
+
+  const resetButton = document.createElement('button');
+  resetButton.className = 'btn-secondary';
+  resetButton.textContent = 'Restore defaults';
+  resetButton.disabled = !customized;
+  resetButton.addEventListener('click', () => saveRuleOptions(rule.id, {}));
+
+  actions.appendChild(saveButton);
+  actions.appendChild(resetButton);
+  fields.appendChild(actions);
+  details.appendChild(fields);
+
+  return details;
+}
+
+function saveRuleOptions(ruleId: string, overrides: Record<string, unknown>) {
+  const ruleOptions = { ...settings.ruleOptions };
+  if (Object.keys(overrides).length > 0) {
+    ruleOptions[ruleId] = overrides;
+  } else {
+    delete ruleOptions[ruleId];
+  }
+  save({ ruleOptions });
+}
+
+/**
+ * Download the rule options as a config file to share with the team or use with the CLI
+ */
+function exportConfig() {
+  const config: RuleConfigFile = { ruleOptions: settings.ruleOptions };
+  const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = CONFIG_FILENAME;
+
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Replace the rule options with the ones from a config file, listing every problem if it is invalid
+ */
+async function importConfig() {
+  const file = configFile.files?.[0];
+  configFile.value = '';
+  if (!file) {
+    return;
+  }
+
+  try {
+    const config = parseRuleConfig(await file.text());
+    showErrorList(configErrors, []);
+    await save({ ruleOptions: config.ruleOptions });
+    showConfigStatus(`Imported options for ${Object.keys(config.ruleOptions).length} rule(s)`);
+  } catch (error) {
+    console.error('Failed to import config:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    // parseRuleConfig lists one problem per line under an "Invalid config:" heading
+    const lines = message.split('\n').map(line => line.trim()).filter(Boolean);
+    showErrorList(configErrors, lines.length > 1 ? lines.slice(1) : lines);
+  }
+}
+
+/**
+ * Save a settings change and confirm it
+ */
+async function save(changes: Partial<ExtensionSettings>) {
+  settings = { ...settings, ...changes };
+
+  try {
+    await chrome.storage.local.set({ settings });
+    showStatus('Settings saved');
+  } catch (error) {
+    console.error('Failed to save settings:', error);
+    showStatus('Could not save settings');
+  }
+
+  render();
+}
+
+/**
+ * Validate the custom rules and save them if they are valid, listing every problem otherwise
+ */
+async function saveCustomRules() {
+  const json = customRules.value.trim();
+
+  if (json) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      showRuleErrors([`Not valid JSON: ${error instanceof Error ? error.message : error}`]);
+      return;
+    }
+
+    const errors = validateDeclarativeRules(data);
+    if (errors.length > 0) {
+      showRuleErrors(errors);
+      return;
+    }
+  }
+
+  showRuleErrors([]);
+
+  try {
+    await chrome.storage.local.set({ customRules: json });
+    const rules = loadDeclarativeRules(json);
+    showRulesStatus(json ? `Saved ${rules.length} custom rule${rules.length !== 1 ? 's' : ''}` : 'Custom rules removed');
+  } catch (error) {
+    console.error('Failed to save custom rules:', error);
+    showRulesStatus('Could not save custom rules');
+  }
+
+  renderRules();
+}
+
+function showRuleErrors(errors: string[]) {
+  showErrorList(customRulesErrors, errors);
+}
+
+function showErrorList(list: HTMLUListElement, errors: string[]) {
+  list.innerHTML = '';
+  errors.forEach(error => {
+    const item = document.createElement('li');
+    item.textContent = error;
+    list.appendChild(item);
+  });
+  list.classList.toggle('hidden', errors.length === 0);
+}
+
+function showRulesStatus(message: string) {
+  rulesStatus.textContent = message;
+  setTimeout(() => {
+    if (rulesStatus.textContent === message) {
+      rulesStatus.textContent = '';
+    }
+  }, 3000);
+}
+
+function showConfigStatus(message: string) {
+  configStatus.textContent = message;
+  setTimeout(() => {
+    if (configStatus.textContent === message) {
+      configStatus.textContent = '';
+    }
+  }, 3000);
+}
+
+function showStatus(message: string) {
+  saveStatus.textContent = message;
+  clearTimeout(statusTimer);
+  statusTimer = setTimeout(() => {
+    saveStatus.textContent = '';
+  }, 2000);
+}
+
+// Initialize when the options page loads
+init();
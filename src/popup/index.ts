@@ -1,10 +1,28 @@
-import { ScanResult, Violation, MessageType, Severity } from '../types';
+import { Annotation, ExtensionSettings, ScanResult, Violation, MessageType, Severity, Suppression, SuppressionStatus, WCAGPrinciple } from '../types';
+import { ExportFormat, exportScanResults } from '../exporters';
+import { decodeEntities, escapeHtml, summarizeViolations } from '../utils';
+import { HistoryEntry, HistoryViolation, ScanHistory, diffScans, getHistoryKey, getTabScanKey } from '../utils/history';
+import { DEFAULT_SETTINGS, getShownViolations, normalizeSettings } from '../utils/settings';
+import { registerBundledRules } from '../rules/bundled';
+import { loadDeclarativeRules } from '../rules/declarative';
+import {
+  SUPPRESSION_STATUSES,
+  SuppressionStore,
+  addSuppression,
+  applySuppressions,
+  createBaseline,
+  getSuppressionOrigin,
+  mergeSuppressions,
+  parseBaseline,
+  removeSuppression,
+} from '../utils/suppressions';
 
 // DOM Elements
 const scanButton = document.getElementById('scanButton') as HTMLButtonElement;
 const rescanButton = document.getElementById('rescanButton') as HTMLButtonElement;
 const copyButton = document.getElementById('copyButton') as HTMLButtonElement;
 const exportButton = document.getElementById('exportButton') as HTMLButtonElement;
+const exportFormat = document.getElementById('exportFormat') as HTMLSelectElement;
 const loading = document.getElementById('loading') as HTMLDivElement;
 const scanInfo = document.getElementById('scanInfo') as HTMLDivElement;
 const results = document.getElementById('results') as HTMLElement;
@@ -14,6 +32,28 @@ const scannedUrl = document.getElementById('scannedUrl') as HTMLDivElement;
 const scannedTime = document.getElementById('scannedTime') as HTMLDivElement;
 const resultsCount = document.getElementById('resultsCount') as HTMLDivElement;
 const countText = document.getElementById('countText') as HTMLSpanElement;
+const liveToggle = document.getElementById('liveToggle') as HTMLInputElement;
+const settingsButton = document.getElementById('settingsButton') as HTMLButtonElement;
+const sidePanelButton = document.getElementById('sidePanelButton') as HTMLButtonElement;
+
+// History
+const historyButton = document.getElementById('historyButton') as HTMLButtonElement;
+const historyPanel = document.getElementById('historyPanel') as HTMLElement;
+const closeHistoryButton = document.getElementById('closeHistoryButton') as HTMLButtonElement;
+const historyEmpty = document.getElementById('historyEmpty') as HTMLParagraphElement;
+const historyPickers = document.getElementById('historyPickers') as HTMLDivElement;
+const historyBase = document.getElementById('historyBase') as HTMLSelectElement;
+const historyCompare = document.getElementById('historyCompare') as HTMLSelectElement;
+const historyDiff = document.getElementById('historyDiff') as HTMLDivElement;
+
+// Suppressions and baselines
+const suppressedInfo = document.getElementById('suppressedInfo') as HTMLLabelElement;
+const showSuppressed = document.getElementById('showSuppressed') as HTMLInputElement;
+const suppressedCount = document.getElementById('suppressedCount') as HTMLSpanElement;
+const exportBaselineButton = document.getElementById('exportBaselineButton') as HTMLButtonElement;
+const importBaselineButton = document.getElementById('importBaselineButton') as HTMLButtonElement;
+const baselineFile = document.getElementById('baselineFile') as HTMLInputElement;
+const baselineStatus = document.getElementById('baselineStatus') as HTMLParagraphElement;
 
 // Stat counters
 const totalCount = document.getElementById('totalCount') as HTMLSpanElement;
@@ -37,37 +77,248 @@ const filterRobust = document.getElementById('filterRobust') as HTMLInputElement
 // Sort
 const sortSelect = document.getElementById('sortSelect') as HTMLSelectElement;
 
+// Annotate page
+const annotateButton = document.getElementById('annotateButton') as HTMLButtonElement;
+const reviewButton = document.getElementById('reviewButton') as HTMLButtonElement;
+
 let currentScanResult: ScanResult | null = null;
 let currentSortOrder: 'default' | 'severity' | 'principle' = 'default';
 const resolvedViolations = new Set<string>();
 const expandedViolations = new Set<string>();
+let suppressionStore: SuppressionStore = {};
+let settings: ExtensionSettings = DEFAULT_SETTINGS;
+let numberedViolations: Violation[] = []; // Currently shown in the list, in list order
+let annotating = false;
+let currentTabId: number | undefined;
+
+// The same page runs as the toolbar popup and as the side panel (see webpack.config.js)
+const isSidePanel = document.body.classList.contains('side-panel');
+
+/**
+ * Filter and sort choices, kept across popup and side panel sessions
+ */
+interface ViewState {
+  severities: Severity[];
+  principles: WCAGPrinciple[];
+  sortOrder: 'default' | 'severity' | 'principle';
+  showSuppressed: boolean;
+}
+
+const SEVERITY_FILTERS: [HTMLInputElement, Severity][] = [
+  [filterCritical, Severity.CRITICAL],
+  [filterSerious, Severity.SERIOUS],
+  [filterModerate, Severity.MODERATE],
+  [filterMinor, Severity.MINOR],
+];
+
+const PRINCIPLE_FILTERS: [HTMLInputElement, WCAGPrinciple][] = [
+  [filterPerceivable, WCAGPrinciple.PERCEIVABLE],
+  [filterOperable, WCAGPrinciple.OPERABLE],
+  [filterUnderstandable, WCAGPrinciple.UNDERSTANDABLE],
+  [filterRobust, WCAGPrinciple.ROBUST],
+];
 
 /**
  * Initialize the popup
  */
 async function init() {
+  // Exported reports describe custom rules by name
+  registerBundledRules();
+
   scanButton.addEventListener('click', handleScan);
   rescanButton.addEventListener('click', handleScan);
   copyButton.addEventListener('click', handleCopy);
   exportButton.addEventListener('click', handleExport);
+  liveToggle.addEventListener('change', handleLiveToggle);
+  historyButton.addEventListener('click', showHistory);
+  closeHistoryButton.addEventListener('click', () => historyPanel.classList.add('hidden'));
+  historyBase.addEventListener('change', displayHistoryDiff);
+  historyCompare.addEventListener('change', displayHistoryDiff);
+  showSuppressed.addEventListener('change', () => {
+    saveViewState();
+    displayViolations(currentScanResult);
+  });
+  exportBaselineButton.addEventListener('click', handleExportBaseline);
+  importBaselineButton.addEventListener('click', () => baselineFile.click());
+  baselineFile.addEventListener('change', handleImportBaseline);
+  settingsButton.addEventListener('click', () => chrome.runtime.openOptionsPage());
+  annotateButton.addEventListener('click', handleAnnotate);
+  reviewButton.addEventListener('click', handleReview);
+  sidePanelButton.addEventListener('click', handleOpenSidePanel);
+  sidePanelButton.classList.toggle('hidden', isSidePanel);
   
   // Add filter listeners
-  [filterCritical, filterSerious, filterModerate, filterMinor, 
-   filterPerceivable, filterOperable, filterUnderstandable, filterRobust].forEach(filter => {
-    filter.addEventListener('change', () => displayViolations(currentScanResult));
+  [...SEVERITY_FILTERS, ...PRINCIPLE_FILTERS].forEach(([filter]) => {
+    filter.addEventListener('change', () => {
+      saveViewState();
+      displayViolations(currentScanResult);
+    });
   });
 
   // Add sort listener
   sortSelect.addEventListener('change', () => {
     currentSortOrder = sortSelect.value as 'default' | 'severity' | 'principle';
+    saveViewState();
     displayViolations(currentScanResult);
   });
 
-  // Load last scan result from storage
-  const { lastScan } = await chrome.storage.local.get('lastScan');
-  if (lastScan) {
-    currentScanResult = lastScan;
-    displayResults(lastScan);
+  // Load settings, filters, suppressions and custom rules (named in exported reports) from storage
+  const stored = await chrome.storage.local.get(['suppressions', 'settings', 'viewState', 'customRules']);
+  loadDeclarativeRules(stored.customRules);
+  suppressionStore = stored.suppressions || {};
+  applySettings(normalizeSettings(stored.settings));
+  if (stored.viewState) {
+    applyViewState(stored.viewState);
+  }
+
+  // Show the active tab's results, and follow the active tab while the side panel stays open
+  await loadActiveTab();
+
+  const { id: windowId } = await chrome.windows.getCurrent();
+  chrome.tabs.onActivated.addListener(activeInfo => {
+    if (activeInfo.windowId === windowId) {
+      loadActiveTab();
+    }
+  });
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (tabId === currentTabId && changeInfo.url) {
+      loadActiveTab();
+    }
+  });
+
+  // Pick up changes made on the options page while the popup is open
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes.settings) {
+      applySettings(normalizeSettings(changes.settings.newValue));
+      if (currentScanResult) {
+        displayResults(currentScanResult);
+      }
+    }
+  });
+
+  // Rescans, live updates and automatic scans of the active tab, from the background worker
+  chrome.runtime.onMessage.addListener((message) => {
+    if (message.type === MessageType.SCAN_UPDATE && message.tabId === currentTabId) {
+      currentScanResult = message.data as ScanResult;
+      displayResults(currentScanResult);
+    }
+  });
+}
+
+/**
+ * Load the active tab's results and live monitoring state
+ */
+async function loadActiveTab() {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+
+  // Annotations belong to the page they were drawn on, so take them off the tab being left
+  if (annotating && currentTabId !== undefined && currentTabId !== tab?.id) {
+    await clearAnnotations(currentTabId);
+  }
+  annotating = false;
+  annotateButton.textContent = '🖍️ Annotate page';
+  currentTabId = tab?.id;
+
+  const { watchedTabs = [] } = await chrome.storage.session.get('watchedTabs');
+  liveToggle.checked = tab?.id !== undefined && watchedTabs.includes(tab.id);
+
+  historyPanel.classList.add('hidden');
+
+  currentScanResult = tab?.id !== undefined ? await getTabResult(tab.id, tab.url) : null;
+  if (currentScanResult) {
+    displayResults(currentScanResult);
+  } else {
+    scanInfo.classList.add('hidden');
+    results.classList.add('hidden');
+    emptyState.classList.add('hidden');
+    document.getElementById('errorMessage')?.classList.add('hidden');
+  }
+}
+
+/**
+ * Get the latest scan of a tab, if it is still for the page the tab shows
+ */
+async function getTabResult(tabId: number, url?: string): Promise<ScanResult | null> {
+  const key = getTabScanKey(tabId);
+  const stored = await chrome.storage.session.get(key);
+  let result: ScanResult | undefined = stored[key];
+
+  // Scans from before the browser restarted only survive as the last scan
+  if (!result) {
+    const { lastScan } = await chrome.storage.local.get('lastScan');
+    result = lastScan;
+  }
+
+  if (!result || !url || getHistoryKey(result.url) !== getHistoryKey(url)) {
+    return null;
+  }
+  return result;
+}
+
+/**
+ * Restore saved filter and sort choices
+ */
+function applyViewState(viewState: ViewState) {
+  SEVERITY_FILTERS.forEach(([filter, severity]) => {
+    filter.checked = viewState.severities.includes(severity);
+  });
+  PRINCIPLE_FILTERS.forEach(([filter, principle]) => {
+    filter.checked = viewState.principles.includes(principle);
+  });
+  currentSortOrder = viewState.sortOrder;
+  sortSelect.value = viewState.sortOrder;
+  showSuppressed.checked = viewState.showSuppressed;
+}
+
+function saveViewState() {
+  const viewState: ViewState = {
+    severities: SEVERITY_FILTERS.filter(([filter]) => filter.checked).map(([, severity]) => severity),
+    principles: PRINCIPLE_FILTERS.filter(([filter]) => filter.checked).map(([, principle]) => principle),
+    sortOrder: currentSortOrder,
+    showSuppressed: showSuppressed.checked,
+  };
+  chrome.storage.local.set({ viewState }).catch(error => console.error('Failed to save filters:', error));
+}
+
+/**
+ * Move the results to the side panel, which stays open while working in the page
+ */
+async function handleOpenSidePanel() {
+  try {
+    const { id: windowId } = await chrome.windows.getCurrent();
+    if (windowId === undefined) return;
+
+    await chrome.sidePanel.open({ windowId });
+    window.close();
+  } catch (error) {
+    console.error('Failed to open the side panel:', error);
+  }
+}
+
+/**
+ * Handle live monitoring toggle
+ */
+async function handleLiveToggle() {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+
+    if (!tab.id) {
+      throw new Error('No active tab found');
+    }
+
+    const response = await chrome.runtime.sendMessage({
+      type: liveToggle.checked ? MessageType.WATCH_START : MessageType.WATCH_STOP,
+      tabId: tab.id,
+    });
+
+    if (response?.error) {
+      throw new Error(response.error);
+    }
+  } catch (error) {
+    console.error('Failed to toggle live monitoring:', error);
+    liveToggle.checked = false;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    showError(errorMessage);
   }
 }
 
@@ -90,46 +341,27 @@ async function handleScan() {
       throw new Error('No active tab found');
     }
 
-    // Check if the URL is a restricted page
-    if (tab.url && isRestrictedUrl(tab.url)) {
-      throw new Error('Cannot scan this page. Chrome extensions cannot access chrome://, chrome-extension://, or Chrome Web Store pages.');
-    }
-
-    // Try to ping the content script first
-    let contentScriptReady = false;
-    try {
-      await chrome.tabs.sendMessage(tab.id, { type: 'PING' });
-      contentScriptReady = true;
-    } catch (e) {
-      // Content script not ready, will inject it programmatically
-      contentScriptReady = false;
-    }
+    // Ask the background worker to scan every frame of the tab and merge the results
+    const response = await chrome.runtime.sendMessage({
+      type: MessageType.SCAN_TAB,
+      tabId: tab.id,
+    });
 
-    // If content script is not ready, inject it programmatically
-    if (!contentScriptReady) {
-      try {
-        await chrome.scripting.executeScript({
-          target: { tabId: tab.id },
-          files: ['content/index.js'],
-        });
-        // Wait a bit for the script to initialize
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (injectError) {
-        throw new Error('Failed to inject content script. This page may not allow extensions.');
-      }
+    if (!response || response.error) {
+      throw new Error(response?.error || 'Scan failed');
     }
 
-    // Send message to content script to scan the page
-    const response = await chrome.tabs.sendMessage(tab.id, {
-      type: MessageType.SCAN_PAGE,
-    });
-
     currentScanResult = response as ScanResult;
     
-    // Store the result
+    // Store the result (the background worker also appends it to the scan history)
     await chrome.storage.local.set({ lastScan: currentScanResult });
     
     displayResults(currentScanResult);
+
+    // Keep an open history view in sync with the new scan
+    if (!historyPanel.classList.contains('hidden')) {
+      await showHistory();
+    }
   } catch (error) {
     console.error('Scan failed:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -141,15 +373,85 @@ async function handleScan() {
   }
 }
 
+// Scans of the current page shown in the history view, oldest first
+let historyScans: HistoryEntry[] = [];
+
 /**
- * Check if URL is restricted (cannot inject content scripts)
+ * Show the scan history of the current page, comparing the two most recent scans
  */
-function isRestrictedUrl(url: string): boolean {
-  const restrictedProtocols = ['chrome://', 'chrome-extension://', 'edge://', 'about:'];
-  const restrictedDomains = ['chrome.google.com/webstore'];
-  
-  return restrictedProtocols.some(protocol => url.startsWith(protocol)) ||
-         restrictedDomains.some(domain => url.includes(domain));
+async function showHistory() {
+  if (!currentScanResult) return;
+
+  const { scanHistory = {} } = await chrome.storage.local.get('scanHistory') as { scanHistory?: ScanHistory };
+  historyScans = scanHistory[getHistoryKey(currentScanResult.url)] || [];
+
+  historyPanel.classList.remove('hidden');
+  historyEmpty.classList.toggle('hidden', historyScans.length >= 2);
+  historyPickers.classList.toggle('hidden', historyScans.length < 2);
+  historyDiff.innerHTML = '';
+
+  if (historyScans.length < 2) return;
+
+  // Newest first in the pickers
+  const options = historyScans
+    .map((scan, index) => `<option value="${index}">${escapeHtml(formatTimestamp(scan.timestamp))} (${scan.summary.total} issues)</option>`)
+    .reverse()
+    .join('');
+  historyBase.innerHTML = options;
+  historyCompare.innerHTML = options;
+
+  historyBase.value = String(historyScans.length - 2);
+  historyCompare.value = String(historyScans.length - 1);
+
+  displayHistoryDiff();
+}
+
+/**
+ * Show which violations were introduced, fixed or unchanged between the two selected scans
+ */
+function displayHistoryDiff() {
+  const base = historyScans[Number(historyBase.value)];
+  const compare = historyScans[Number(historyCompare.value)];
+  if (!base || !compare) return;
+
+  // Always diff from the older scan to the newer one, whichever order they were picked in
+  const [older, newer] = base.timestamp <= compare.timestamp ? [base, compare] : [compare, base];
+  const diff = diffScans(older, newer);
+
+  // Messages hold page text, so they are set as text rather than parsed as HTML
+  const renderGroup = (className: string, title: string, violations: HistoryViolation[], open: boolean) => {
+    const group = document.createElement('details');
+    group.className = `diff-group ${className}`;
+    group.open = open;
+
+    const summary = document.createElement('summary');
+    summary.textContent = `${title} (${violations.length})`;
+    group.appendChild(summary);
+
+    const list = document.createElement('ul');
+    violations.forEach(violation => {
+      const item = document.createElement('li');
+
+      const tag = document.createElement('span');
+      tag.className = 'wcag-tag';
+      tag.textContent = `WCAG ${violation.wcagCriteria}`;
+      item.appendChild(tag);
+
+      const message = document.createElement('span');
+      message.textContent = decodeEntities(violation.message);
+      item.appendChild(message);
+
+      list.appendChild(item);
+    });
+    group.appendChild(list);
+
+    return group;
+  };
+
+  historyDiff.innerHTML = '';
+  historyDiff.appendChild(renderGroup('diff-introduced', 'Introduced', diff.introduced, true));
+  historyDiff.appendChild(renderGroup('diff-fixed', 'Fixed', diff.fixed, true));
+  historyDiff.appendChild(renderGroup('diff-unchanged', 'Unchanged', diff.unchanged, false));
 }
 
 /**
@@ -189,7 +491,12 @@ function displayResults(scanResult: ScanResult) {
     errorDiv.classList.add('hidden');
   }
 
-  const { summary, violations, url, timestamp } = scanResult;
+  const { url, timestamp } = scanResult;
+  const violations = getShownViolations(scanResult.violations, settings);
+
+  // Suppressed violations are counted separately
+  const { active, suppressed } = applySuppressions(violations, getCurrentSuppressions());
+  const summary = summarizeViolations(active);
 
   // Show scan info
   scanInfo.classList.remove('hidden');
@@ -206,7 +513,10 @@ function displayResults(scanResult: ScanResult) {
   moderateCount.textContent = summary.moderate.toString();
   minorCount.textContent = summary.minor.toString();
 
-  if (summary.total === 0) {
+  suppressedInfo.classList.toggle('hidden', suppressed.length === 0);
+  suppressedCount.textContent = suppressed.length.toString();
+
+  if (violations.length === 0) {
     emptyState.classList.remove('hidden');
     results.classList.add('hidden');
   } else {
@@ -216,6 +526,16 @@ function displayResults(scanResult: ScanResult) {
   }
 }
 
+/**
+ * Apply user settings to the popup, hiding the minor issue stat and filter when minor issues are turned off
+ */
+function applySettings(newSettings: ExtensionSettings) {
+  settings = newSettings;
+
+  document.querySelector('.stat-minor')?.classList.toggle('hidden', !settings.showMinorIssues);
+  filterMinor.closest('label')?.classList.toggle('hidden', !settings.showMinorIssues);
+}
+
 /**
  * Display filtered violations list
  */
@@ -247,8 +567,16 @@ function displayViolations(scanResult: ScanResult | null) {
     if (filterUnderstandable.checked) activePrincipleFilters.push('understandable');
     if (filterRobust.checked) activePrincipleFilters.push('robust');
 
+    // Leave out suppressed violations unless asked to show them
+    const shownViolations = getShownViolations(scanResult.violations, settings);
+    const { suppressed } = applySuppressions(shownViolations, getCurrentSuppressions());
+    const suppressionByViolation = new Map(suppressed.map(entry => [entry.violation, entry.suppression]));
+    const listedViolations = showSuppressed.checked
+      ? shownViolations
+      : shownViolations.filter(v => !suppressionByViolation.has(v));
+
     // Filter violations by both severity and principle
-    let filteredViolations = scanResult.violations.filter(v => 
+    let filteredViolations = listedViolations.filter(v => 
       activeSeverityFilters.includes(v.severity) && 
       activePrincipleFilters.includes(v.principle)
     );
@@ -256,11 +584,17 @@ function displayViolations(scanResult: ScanResult | null) {
     // Sort violations based on current sort order
     filteredViolations = sortViolations(filteredViolations, currentSortOrder);
 
+    // Keep page annotations numbered like the list
+    numberedViolations = filteredViolations;
+    if (annotating) {
+      sendAnnotations();
+    }
+
     // Clear list
     violationsList.innerHTML = '';
 
     // Update count display
-    updateResultsCount(filteredViolations.length, scanResult.summary.total);
+    updateResultsCount(filteredViolations.length, listedViolations.length);
 
     if (filteredViolations.length === 0) {
       violationsList.innerHTML = '<p class="no-results">No violations match the current filters.</p>';
@@ -274,7 +608,7 @@ function displayViolations(scanResult: ScanResult | null) {
 
     // Render violations
     filteredViolations.forEach((violation, index) => {
-      const violationCard = createViolationCard(violation, index);
+      const violationCard = createViolationCard(violation, index, suppressionByViolation.get(violation));
       violationsList.appendChild(violationCard);
     });
 
@@ -344,8 +678,8 @@ function updateResultsCount(shown: number, total: number) {
 /**
  * Create a violation card element
  */
-function createViolationCard(violation: Violation, index: number): HTMLElement {
-  const violationId = `${violation.element}-${violation.message}`;
+function createViolationCard(violation: Violation, index: number, suppression?: Suppression): HTMLElement {
+  const violationId = violation.fingerprint || `${violation.frameId || 0}-${violation.element}-${violation.message}`;
   const isResolved = resolvedViolations.has(violationId);
   const isExpanded = expandedViolations.has(violationId);
   
@@ -357,6 +691,9 @@ function createViolationCard(violation: Violation, index: number): HTMLElement {
   if (!isExpanded) {
     card.classList.add('collapsed');
   }
+  if (suppression) {
+    card.classList.add('suppressed');
+  }
   
   const header = document.createElement('div');
   header.className = 'violation-header';
@@ -430,6 +767,7 @@ function createViolationCard(violation: Violation, index: number): HTMLElement {
     <span class="severity-tag severity-${violation.severity}">${violation.severity}</span>
     <span class="wcag-tag">${violation.principle.toUpperCase()}</span>
     <span class="wcag-tag">WCAG ${violation.wcagCriteria} (Level ${violation.level})</span>
+    ${suppression ? `<span class="suppression-tag">${SUPPRESSION_STATUSES[suppression.status]}</span>` : ''}
   `;
   
   const description = document.createElement('p');
@@ -447,6 +785,27 @@ function createViolationCard(violation: Violation, index: number): HTMLElement {
   content.appendChild(meta);
   content.appendChild(description);
   content.appendChild(elementInfo);
+
+  if (suppression) {
+    const suppressionDetails = document.createElement('div');
+    suppressionDetails.className = 'suppression-details';
+    const expiry = suppression.expiresAt ? ` (until ${new Date(suppression.expiresAt).toLocaleDateString()})` : '';
+    suppressionDetails.innerHTML = `
+      <strong>${SUPPRESSION_STATUSES[suppression.status]}${expiry}:</strong>
+      ${escapeHtml(suppression.reason || 'No reason given')}
+    `;
+    content.appendChild(suppressionDetails);
+  }
+  
+  if (violation.framePath && violation.framePath.length > 0) {
+    const frameInfo = document.createElement('div');
+    frameInfo.className = 'violation-frame';
+    frameInfo.innerHTML = `
+      <strong>Frame:</strong>
+      <code>${violation.framePath.map(escapeHtml).join(' › ')}</code>
+    `;
+    content.appendChild(frameInfo);
+  }
   
   if (violation.suggestion) {
     const suggestion = document.createElement('div');
@@ -463,8 +822,33 @@ function createViolationCard(violation: Violation, index: number): HTMLElement {
   searchButton.className = 'search-in-code';
   searchButton.textContent = 'Spotlight element';
   searchButton.title = 'Toggle spotlight: Highlight this element and gray out the rest of the page';
-  searchButton.addEventListener('click', () => inspectElement(violation.element));
+  searchButton.addEventListener('click', () => inspectElement(violation));
   footer.appendChild(searchButton);
+
+  // Suppressions are matched by fingerprint, so violations without one can't be suppressed
+  let suppressForm: HTMLFormElement | null = null;
+  if (violation.fingerprint) {
+    const suppressButton = document.createElement('button');
+    suppressButton.className = 'suppress-button';
+    suppressButton.textContent = suppression ? 'Unsuppress' : 'Suppress';
+    suppressButton.title = suppression
+      ? 'Report this violation again'
+      : "Mark as accepted, won't fix or false positive for this site";
+
+    if (suppression) {
+      suppressButton.addEventListener('click', () => saveSuppressions(removeSuppression(getCurrentSuppressions(), suppression.fingerprint)));
+    } else {
+      suppressForm = createSuppressForm(violation);
+      const form = suppressForm;
+      suppressButton.addEventListener('click', () => {
+        form.classList.toggle('hidden');
+        if (!form.classList.contains('hidden')) {
+          (form.querySelector('.suppress-reason input') as HTMLInputElement).focus();
+        }
+      });
+    }
+    footer.appendChild(suppressButton);
+  }
   
   if (violation.learnMoreUrl) {
     const learnMore = document.createElement('a');
@@ -476,11 +860,143 @@ function createViolationCard(violation: Violation, index: number): HTMLElement {
   }
   
   content.appendChild(footer);
+  if (suppressForm) {
+    content.appendChild(suppressForm);
+  }
   card.appendChild(content);
   
   return card;
 }
 
+/**
+ * Create the form for suppressing a violation, with a status, reason and optional expiry date
+ */
+function createSuppressForm(violation: Violation): HTMLFormElement {
+  const form = document.createElement('form');
+  form.className = 'suppress-form hidden';
+  form.innerHTML = `
+    <label>
+      Status
+      <select name="status">
+        ${Object.entries(SUPPRESSION_STATUSES).map(([value, label]) => `<option value="${value}">${label}</option>`).join('')}
+      </select>
+    </label>
+    <label>
+      Expires (optional)
+      <input type="date" name="expiresAt">
+    </label>
+    <label class="suppress-reason">
+      Reason
+      <input type="text" name="reason" required placeholder="e.g. Legacy widget, replaced in Q3">
+    </label>
+    <div class="suppress-form-actions">
+      <button type="button" class="btn-secondary suppress-cancel">Cancel</button>
+      <button type="submit" class="btn-secondary">Save</button>
+    </div>
+  `;
+
+  form.querySelector('.suppress-cancel')!.addEventListener('click', () => form.classList.add('hidden'));
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    const data = new FormData(form);
+    const expiryDate = data.get('expiresAt') as string;
+
+    const suppression: Suppression = {
+      fingerprint: violation.fingerprint!,
+      ruleId: violation.ruleId,
+      message: violation.message,
+      status: data.get('status') as SuppressionStatus,
+      reason: (data.get('reason') as string).trim(),
+      createdAt: Date.now(),
+      // Suppress through the end of the chosen day
+      ...(expiryDate ? { expiresAt: new Date(`${expiryDate}T23:59:59`).getTime() } : {}),
+    };
+
+    saveSuppressions(addSuppression(getCurrentSuppressions(), suppression));
+  });
+
+  return form;
+}
+
+/**
+ * Get the suppressions for the origin of the current scan
+ */
+function getCurrentSuppressions(): Suppression[] {
+  if (!currentScanResult) return [];
+  return suppressionStore[getSuppressionOrigin(currentScanResult.url)] || [];
+}
+
+/**
+ * Store the suppressions for the origin of the current scan and refresh the results
+ */
+async function saveSuppressions(suppressions: Suppression[], origin?: string) {
+  if (!origin && !currentScanResult) return;
+
+  const key = origin || getSuppressionOrigin(currentScanResult!.url);
+  suppressionStore = { ...suppressionStore, [key]: suppressions };
+  if (suppressions.length === 0) {
+    delete suppressionStore[key];
+  }
+
+  try {
+    await chrome.storage.local.set({ suppressions: suppressionStore });
+  } catch (error) {
+    console.error('Failed to save suppressions:', error);
+  }
+
+  if (currentScanResult) {
+    displayResults(currentScanResult);
+  }
+}
+
+/**
+ * Download the current site's suppressions as a baseline file
+ */
+function handleExportBaseline() {
+  if (!currentScanResult) {
+    return;
+  }
+
+  const origin = getSuppressionOrigin(currentScanResult.url);
+  const baseline = createBaseline(origin, getCurrentSuppressions());
+  const host = origin.replace(/^[a-z]+:\/\//, '').replace(/[^a-z0-9.-]+/gi, '-');
+
+  downloadFile(JSON.stringify(baseline, null, 2), 'application/json', `accessibility-baseline-${host}.json`);
+  showBaselineStatus(`Exported ${baseline.suppressions.length} suppression${baseline.suppressions.length !== 1 ? 's' : ''}.`);
+}
+
+/**
+ * Merge a baseline file into the current site's suppressions
+ */
+async function handleImportBaseline() {
+  const file = baselineFile.files?.[0];
+  baselineFile.value = '';
+  if (!file) {
+    return;
+  }
+
+  try {
+    const baseline = parseBaseline(await file.text());
+
+    // A baseline shared from another environment (e.g. staging) applies to the site being viewed
+    const origin = currentScanResult ? getSuppressionOrigin(currentScanResult.url) : baseline.origin;
+    const existing = suppressionStore[origin] || [];
+    await saveSuppressions(mergeSuppressions(existing, baseline.suppressions), origin);
+
+    showBaselineStatus(`Imported ${baseline.suppressions.length} suppression${baseline.suppressions.length !== 1 ? 's' : ''}.`);
+  } catch (error) {
+    console.error('Failed to import baseline:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    showBaselineStatus(`Import failed: ${errorMessage}`, true);
+  }
+}
+
+function showBaselineStatus(message: string, isError: boolean = false) {
+  baselineStatus.textContent = message;
+  baselineStatus.classList.toggle('error', isError);
+  baselineStatus.classList.remove('hidden');
+}
+
 /**
  * Handle copy to clipboard button click
  */
@@ -490,19 +1006,9 @@ async function handleCopy() {
   }
 
   try {
-    // Create export data
-    const exportData = {
-      timestamp: new Date().toISOString(),
-      url: currentScanResult.url || 'unknown',
-      summary: currentScanResult.summary,
-      violations: currentScanResult.violations
-    };
-
-    // Convert to JSON
-    const jsonString = JSON.stringify(exportData, null, 2);
-    
-    // Copy to clipboard
-    await navigator.clipboard.writeText(jsonString);
+    // Copy the JSON report to clipboard
+    const { content } = exportScanResults(currentScanResult, 'json');
+    await navigator.clipboard.writeText(content);
     
     // Show feedback
     const originalText = copyButton.textContent;
@@ -529,27 +1035,23 @@ function handleExport() {
     return;
   }
 
-  // Create export data
-  const exportData = {
-    timestamp: new Date().toISOString(),
-    url: currentScanResult.url || 'unknown',
-    summary: currentScanResult.summary,
-    violations: currentScanResult.violations
-  };
-
-  // Convert to JSON
-  const jsonString = JSON.stringify(exportData, null, 2);
-  
-  // Create blob and download
-  const blob = new Blob([jsonString], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
+  const report = exportScanResults(currentScanResult, exportFormat.value as ExportFormat);
   
   // Generate filename with timestamp
   const date = new Date().toISOString().split('T')[0];
   const time = new Date().toTimeString().split(' ')[0].replace(/:/g, '-');
-  a.download = `accessibility-report-${date}-${time}.json`;
+  downloadFile(report.content, report.mimeType, `accessibility-report-${date}-${time}.${report.extension}`);
+}
+
+/**
+ * Download text content as a file
+ */
+function downloadFile(content: string, mimeType: string, filename: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
   
   document.body.appendChild(a);
   a.click();
@@ -561,28 +1063,98 @@ function handleExport() {
  * 
  * Open DevTools and inspect the element
  */
-async function inspectElement(elementSelector: string) {
+async function inspectElement(violation: Violation) {
   try {
     const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
     if (!tab.id) return;
 
-    // Send message to content script to inspect element
+    // Send message to the content script in the frame that owns the element
     await chrome.tabs.sendMessage(tab.id, {
       type: 'INSPECT_ELEMENT',
-      selector: elementSelector
-    });
+      selector: violation.element,
+      elementRef: violation.elementRef
+    }, { frameId: violation.frameId || 0 });
   } catch (error) {
     console.error('Failed to inspect element:', error);
   }
 }
 
 /**
- * Escape HTML to prevent XSS
+ * Toggle annotate mode, which outlines every listed violation on the page
+ */
+async function handleAnnotate() {
+  annotating = !annotating;
+  annotateButton.textContent = annotating ? '✖️ Clear annotations' : '🖍️ Annotate page';
+
+  if (annotating) {
+    await sendAnnotations();
+  } else {
+    await clearAnnotations();
+  }
+}
+
+/**
+ * Open the in-page navigator on the listed violations and get the popup out of the way
+ */
+async function handleReview() {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab.id) return;
+
+    // The navigator lives in the top frame and reaches other frames through the background worker
+    await chrome.tabs.sendMessage(tab.id, { type: MessageType.OPEN_NAVIGATOR, violations: numberedViolations }, { frameId: 0 });
+    window.close();
+  } catch (error) {
+    console.error('Failed to open the navigator:', error);
+  }
+}
+
+/**
+ * Send each frame the annotations for its own violations, numbered as in the list
+ */
+async function sendAnnotations() {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab.id) return;
+
+    const annotationsByFrame = new Map<number, Annotation[]>();
+    numberedViolations.forEach((violation, index) => {
+      const frameId = violation.frameId || 0;
+      annotationsByFrame.set(frameId, [...(annotationsByFrame.get(frameId) || []), {
+        selector: violation.element,
+        elementRef: violation.elementRef,
+        severity: violation.severity,
+        message: violation.message,
+        number: index + 1,
+      }]);
+    });
+
+    // Frames whose violations were all filtered out keep no stale markers
+    await clearAnnotations();
+    await Promise.all(Array.from(annotationsByFrame.entries()).map(([frameId, annotations]) =>
+      chrome.tabs.sendMessage(tab.id!, { type: MessageType.HIGHLIGHT_ELEMENT, annotations }, { frameId })
+        .catch(error => console.warn(`Failed to annotate frame ${frameId}:`, error))
+    ));
+  } catch (error) {
+    console.error('Failed to annotate page:', error);
+  }
+}
+
+/**
+ * Remove annotations from every frame of a tab (the active tab by default)
  */
-function escapeHtml(html: string): string {
-  const div = document.createElement('div');
-  div.textContent = html;
-  return div.innerHTML;
+async function clearAnnotations(tabId?: number) {
+  try {
+    if (tabId === undefined) {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab.id) return;
+      tabId = tab.id;
+    }
+
+    await chrome.tabs.sendMessage(tabId, { type: MessageType.CLEAR_HIGHLIGHTS });
+  } catch (error) {
+    console.error('Failed to clear annotations:', error);
+  }
 }
 
 /**
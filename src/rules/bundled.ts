@@ -0,0 +1,24 @@
+/**
+ * Custom rule packs bundled into the extension
+ * Chrome extensions can't run code loaded after installation, so custom rules written as code
+ * are added here and built in. The content script and options page register them on startup.
+ */
+
+import { AccessibilityRule } from '../types';
+import { registerRules } from './registry';
+
+// Rule packs by namespace, e.g. { acme: acmeRules } registers "acme/<rule id>"
+const BUNDLED_RULE_PACKS: Record<string, AccessibilityRule[]> = {};
+
+/**
+ * Register the bundled rule packs, skipping (and logging) any pack that fails validation
+ */
+export function registerBundledRules() {
+  Object.entries(BUNDLED_RULE_PACKS).forEach(([namespace, rules]) => {
+    try {
+      registerRules(namespace, rules);
+    } catch (error) {
+      console.error(`Failed to register the "${namespace}" rule pack:`, error);
+    }
+  });
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runAudit } from '../engine';
+import { parseRuleConfig, sanitizeRuleOptions, validateRuleOptions } from './config';
+
+describe('validateRuleOptions', () => {
+  it('accepts overrides that match the defaults', () => {
+    expect(validateRuleOptions({
+      'link-purpose': { vagueTexts: ['mehr', 'hier klicken'] },
+      'bypass-blocks': { linkThreshold: 5 },
+    })).toEqual([]);
+  });
+
+  it('reports each problem with the rule and option', () => {
+    expect(validateRuleOptions({
+      'link-purpose': { vagueText: ['mehr'] },
+      'bypass-blocks': { linkThreshold: -1 },
+      'image-alt-text': { filenamePatterns: ['(jpg'] },
+      'no-such-rule': {},
+    })).toEqual([
+      'link-purpose.vagueText: unknown option (expected vagueTexts)',
+      'bypass-blocks.linkThreshold: expected a number of 0 or more',
+      'image-alt-text.filenamePatterns: "(jpg" is not a valid regular expression',
+      'no-such-rule: unknown rule ID',
+    ]);
+    expect(validateRuleOptions([])).toEqual(['Rule options must be an object keyed by rule ID']);
+  });
+});
+
+describe('sanitizeRuleOptions', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the valid options and logs the rest', () => {
+    expect(sanitizeRuleOptions({
+      'link-purpose': { vagueTexts: ['mehr'], vagueText: ['hier'] },
+      'bypass-blocks': { linkThreshold: 'five' },
+    })).toEqual({ 'link-purpose': { vagueTexts: ['mehr'] } });
+    expect(console.warn).toHaveBeenCalledWith(
+      'Ignoring invalid rule options: link-purpose.vagueText: unknown option (expected vagueTexts); bypass-blocks.linkThreshold: expected a number of 0 or more'
+    );
+  });
+
+  it('lets scans run with the valid options when others are invalid', () => {
+    document.body.innerHTML = '<main><a href="/more">mehr</a></main>';
+
+    const violations = runAudit(document, {
+      include: ['link-purpose'],
+      ruleOptions: { 'link-purpose': { vagueTexts: ['mehr'] }, 'bypass-blocks': { linkThreshold: 'five' } },
+    }).violations;
+
+    expect(violations).toHaveLength(1);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseRuleConfig', () => {
+  it('reads the rule options from a config file', () => {
+    const ruleOptions = { 'link-purpose': { vagueTexts: ['mehr'] } };
+    expect(parseRuleConfig(JSON.stringify({ ruleOptions }))).toEqual({ ruleOptions });
+    expect(parseRuleConfig('{}')).toEqual({ ruleOptions: {} });
+  });
+
+  it('throws with every problem listed', () => {
+    expect(() => parseRuleConfig('{')).toThrow('Config is not valid JSON');
+    expect(() => parseRuleConfig('[]')).toThrow('Not an All-Inclusive config');
+    expect(() => parseRuleConfig(JSON.stringify({ rules: {}, ruleOptions: { 'bypass-blocks': { linkThreshold: 'five' } } })))
+      .toThrow('Invalid config:\n  rules: unknown setting (expected ruleOptions)\n  bypass-blocks.linkThreshold: expected a number of 0 or more');
+  });
+});
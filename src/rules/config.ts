@@ -0,0 +1,149 @@
+/**
+ * Rule options
+ * Rules with tunable heuristics (word lists, thresholds, patterns) declare defaultOptions.
+ * Overrides come from the options page, a shared config file or the library API, and are checked
+ * against the types of the defaults before any rule sees them.
+ */
+
+import { AccessibilityRule, RuleOptionsConfig } from '../types';
+import { compilePattern } from '../utils';
+import { getRegisteredRules } from './registry';
+
+/**
+ * A shared config file, e.g. all-inclusive.config.json
+ */
+export interface RuleConfigFile {
+  ruleOptions: RuleOptionsConfig;
+}
+
+/**
+ * Get the options a rule runs with: its defaults, with the configured overrides on top
+ */
+export function getRuleOptions(rule: AccessibilityRule, config?: RuleOptionsConfig): object {
+  return { ...(rule.defaultOptions || {}), ...(config?.[rule.id] || {}) };
+}
+
+/**
+ * Check rule option overrides against the rules' default options.
+ * Returns one message per problem, prefixed with the rule ID and option name, or none when they are valid.
+ */
+export function validateRuleOptions(config: unknown, rules: AccessibilityRule[] = getRegisteredRules()): string[] {
+  return checkRuleOptions(config, rules).errors;
+}
+
+/**
+ * Keep only the valid rule option overrides, logging the rest.
+ * Used for stored settings and the library API, where one stale or mistyped option should not stop every scan.
+ */
+export function sanitizeRuleOptions(config: unknown, rules: AccessibilityRule[] = getRegisteredRules()): RuleOptionsConfig {
+  const { valid, errors } = checkRuleOptions(config, rules);
+  if (errors.length > 0) {
+    console.warn(`Ignoring invalid rule options: ${errors.join('; ')}`);
+  }
+  return valid;
+}
+
+/**
+ * Split rule option overrides into the valid ones and a message per problem
+ */
+function checkRuleOptions(config: unknown, rules: AccessibilityRule[]): { valid: RuleOptionsConfig; errors: string[] } {
+  const valid: RuleOptionsConfig = {};
+  const errors: string[] = [];
+
+  if (!isRecord(config)) {
+    return { valid, errors: ['Rule options must be an object keyed by rule ID'] };
+  }
+
+  Object.entries(config).forEach(([ruleId, overrides]) => {
+    const rule = rules.find(candidate => candidate.id === ruleId);
+    if (!rule) {
+      errors.push(`${ruleId}: unknown rule ID`);
+      return;
+    }
+
+    const defaults = rule.defaultOptions as Record<string, unknown> | undefined;
+    if (!defaults) {
+      errors.push(`${ruleId}: this rule has no options`);
+      return;
+    }
+    if (!isRecord(overrides)) {
+      errors.push(`${ruleId}: expected an object of options`);
+      return;
+    }
+
+    Object.entries(overrides).forEach(([name, value]) => {
+      const path = `${ruleId}.${name}`;
+      if (!(name in defaults)) {
+        errors.push(`${path}: unknown option (expected ${Object.keys(defaults).join(', ')})`);
+        return;
+      }
+
+      const error = checkOptionValue(name, value, defaults[name]);
+      if (error) {
+        errors.push(`${path}: ${error}`);
+      } else {
+        valid[ruleId] = { ...valid[ruleId], [name]: value };
+      }
+    });
+  });
+
+  return { valid, errors };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check an option value against the type of its default, and compile it if it is a pattern
+ */
+function checkOptionValue(name: string, value: unknown, defaultValue: unknown): string | null {
+  const isPattern = /Patterns?$/.test(name);
+
+  if (Array.isArray(defaultValue)) {
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      return 'expected a list of strings';
+    }
+    const invalid = isPattern ? value.find(item => !compilePattern(item)) : undefined;
+    return invalid !== undefined ? `"${invalid}" is not a valid regular expression` : null;
+  }
+
+  if (typeof defaultValue === 'number') {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : 'expected a number of 0 or more';
+  }
+
+  if (typeof defaultValue === 'string') {
+    if (typeof value !== 'string') return 'expected a string';
+    return isPattern && !compilePattern(value) ? `"${value}" is not a valid regular expression` : null;
+  }
+
+  return typeof value === typeof defaultValue ? null : `expected a ${typeof defaultValue}`;
+}
+
+/**
+ * Parse a shared config file ({ "ruleOptions": { "<rule id>": { ... } } }).
+ * Throws an Error listing every problem when it is invalid.
+ */
+export function parseRuleConfig(json: string, rules: AccessibilityRule[] = getRegisteredRules()): RuleConfigFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Config is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!isRecord(data)) {
+    throw new Error('Not an All-Inclusive config (expected an object with "ruleOptions")');
+  }
+
+  const unknownKeys = Object.keys(data).filter(key => key !== 'ruleOptions');
+  const errors = [
+    ...unknownKeys.map(key => `${key}: unknown setting (expected ruleOptions)`),
+    ...validateRuleOptions(data.ruleOptions ?? {}, rules),
+  ];
+  if (errors.length > 0) {
+    throw new Error(`Invalid config:\n${errors.map(error => `  ${error}`).join('\n')}`);
+  }
+
+  return { ruleOptions: (data.ruleOptions ?? {}) as RuleOptionsConfig };
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { runAudit } from '../engine';
+import { loadDeclarativeRules, parseDeclarativeRules, validateDeclarativeRules } from './declarative';
+
+const RULE = {
+  id: 'icon-button-name',
+  name: 'Icon buttons need a name',
+  selector: 'button.icon',
+  conditions: [{ source: 'accessibleName', operator: 'empty' }],
+  principle: 'robust',
+  wcagCriteria: '4.1.2',
+  level: 'A',
+  severity: 'critical',
+  message: 'Icon button <button> has no name',
+  learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value',
+};
+
+function withRule(changes: Record<string, unknown>) {
+  return { namespace: 'acme', rules: [{ ...RULE, ...changes }] };
+}
+
+describe('validateDeclarativeRules', () => {
+  it('accepts a valid rule set', () => {
+    expect(validateDeclarativeRules(withRule({}))).toEqual([]);
+    expect(validateDeclarativeRules(withRule({ wcagCriteria: '1.3', learnMoreUrl: 'http://example.com/a11y' }))).toEqual([]);
+  });
+
+  it('reports problems with their location', () => {
+    expect(validateDeclarativeRules({ rules: [{ ...RULE, severity: 'urgent', colour: 'red' }] })).toEqual([
+      'rules[0].colour: unknown field (expected id, name, description, selector, conditions, principle, wcagCriteria, level, severity, message, suggestion, learnMoreUrl)',
+      'rules[0].severity: expected one of critical, serious, moderate, minor',
+    ]);
+    expect(validateDeclarativeRules(withRule({ conditions: [{ source: 'style', operator: 'matches', value: '(' }] }))).toEqual([
+      'rules[0].conditions[0].name: required for style conditions (the CSS property)',
+      'rules[0].conditions[0].value: "(" is not a valid regular expression',
+    ]);
+  });
+
+  it('takes strings or numbers as values to compare text with', () => {
+    const condition = (value: unknown) => withRule({ conditions: [{ source: 'attribute', name: 'tabindex', operator: 'equals', value }] });
+
+    expect(validateDeclarativeRules(condition('0'))).toEqual([]);
+    expect(validateDeclarativeRules(condition(0))).toEqual([]);
+    expect(validateDeclarativeRules(condition(true))).toEqual([
+      'rules[0].conditions[0].value: required for "equals", expected a string or number',
+    ]);
+  });
+
+  it('requires success criterion numbers', () => {
+    expect(validateDeclarativeRules(withRule({ wcagCriteria: '<img src=x onerror=alert(1)>' }))).toEqual([
+      'rules[0].wcagCriteria: "<img src=x onerror=alert(1)>" is not a success criterion number, e.g. "1.4.3"',
+    ]);
+    expect(validateDeclarativeRules(withRule({ wcagCriteria: '1.4.3.2' }))).toHaveLength(1);
+  });
+
+  it('only allows http and https links', () => {
+    ['javascript:alert(1)', 'data:text/html,<p>hi</p>', '/relative/path'].forEach(learnMoreUrl => {
+      expect(validateDeclarativeRules(withRule({ learnMoreUrl }))).toEqual(['rules[0].learnMoreUrl: expected an http or https URL']);
+    });
+  });
+});
+
+describe('parseDeclarativeRules', () => {
+  it('throws with every problem listed', () => {
+    expect(() => parseDeclarativeRules('{')).toThrow('Rules are not valid JSON');
+    expect(() => parseDeclarativeRules(JSON.stringify(withRule({ id: 'Bad Id', learnMoreUrl: 'javascript:void(0)' }))))
+      .toThrow('Invalid rules:\n  rules[0].id: required, use lowercase letters, digits and hyphens\n  rules[0].learnMoreUrl: expected an http or https URL');
+  });
+});
+
+describe('loaded declarative rules', () => {
+  afterEach(() => {
+    loadDeclarativeRules();
+  });
+
+  it('run under their namespace with escaped messages', () => {
+    document.body.innerHTML = '<button class="icon"></button><button class="icon">Save</button>';
+    loadDeclarativeRules(JSON.stringify(withRule({})));
+
+    const violations = runAudit(document, { include: ['acme/icon-button-name'] }).violations;
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].message).toBe('Icon button &lt;button&gt; has no name');
+  });
+
+  it('compare numeric values as text', () => {
+    document.body.innerHTML = '<button class="icon" tabindex="0">A</button><button class="icon" tabindex="-1">B</button>';
+    loadDeclarativeRules(JSON.stringify(withRule({ conditions: [{ source: 'attribute', name: 'tabindex', operator: 'equals', value: -1 }] })));
+
+    const violations = runAudit(document, { include: ['acme/icon-button-name'] }).violations;
+
+    expect(violations.map(violation => violation.htmlSnippet)).toEqual(['<button class="icon" tabindex="-1">B</button>']);
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Declarative rules
+ * Rules written as JSON (a selector for candidate elements plus conditions on their attributes,
+ * computed styles or text) are validated and compiled into AccessibilityRule objects when loaded
+ */
+
+import {
+  AccessibilityRule,
+  DeclarativeCondition,
+  DeclarativeConditionSource,
+  DeclarativeOperator,
+  DeclarativeRule,
+  DeclarativeRuleSet,
+  Severity,
+  Violation,
+  WCAGLevel,
+  WCAGPrinciple,
+} from '../types';
+import { escapeHtml, getElementSelector, querySelectorAllDeep, shouldCheckElement } from '../utils';
+import { computeAccessibleName } from '../utils/accname';
+import { registerElement } from '../utils/registry';
+import { registerRules, unregisterRules } from './registry';
+
+export const DEFAULT_RULE_NAMESPACE = 'custom';
+
+const CONDITION_SOURCES: DeclarativeConditionSource[] = ['attribute', 'style', 'text', 'accessibleName'];
+
+const OPERATORS: DeclarativeOperator[] = [
+  'exists', 'missing', 'empty', 'not-empty', 'equals', 'not-equals',
+  'contains', 'not-contains', 'matches', 'not-matches', 'less-than', 'greater-than',
+];
+
+// Operators that compare with the condition's value
+const VALUE_OPERATORS: DeclarativeOperator[] = ['equals', 'not-equals', 'contains', 'not-contains', 'matches', 'not-matches', 'less-than', 'greater-than'];
+
+const RULE_FIELDS = ['id', 'name', 'description', 'selector', 'conditions', 'principle', 'wcagCriteria', 'level', 'severity', 'message', 'suggestion', 'learnMoreUrl'];
+
+const CONDITION_FIELDS = ['source', 'name', 'operator', 'value', 'ignoreCase'];
+
+/**
+ * Check a declarative rule set against the schema.
+ * Returns one message per problem, prefixed with where it is (e.g. "rules[1].conditions[0].operator"), or none when it is valid.
+ */
+export function validateDeclarativeRules(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['Expected an object with a "rules" array, e.g. { "namespace": "acme", "rules": [] }'];
+  }
+
+  const ruleSet = data as Record<string, unknown>;
+  if (ruleSet.namespace !== undefined && (typeof ruleSet.namespace !== 'string' || !/^[a-z][a-z0-9-]*$/.test(ruleSet.namespace))) {
+    errors.push('namespace: use lowercase letters, digits and hyphens, starting with a letter');
+  }
+  if (!Array.isArray(ruleSet.rules)) {
+    errors.push('rules: expected an array of rules');
+    return errors;
+  }
+
+  const seenIds = new Set<string>();
+  ruleSet.rules.forEach((rule: unknown, index) => {
+    const path = `rules[${index}]`;
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+      errors.push(`${path}: expected a rule object`);
+      return;
+    }
+
+    const fields = rule as Record<string, unknown>;
+    Object.keys(fields)
+      .filter(field => !RULE_FIELDS.includes(field))
+      .forEach(field => errors.push(`${path}.${field}: unknown field (expected ${RULE_FIELDS.join(', ')})`));
+
+    if (typeof fields.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(fields.id)) {
+      errors.push(`${path}.id: required, use lowercase letters, digits and hyphens`);
+    } else if (seenIds.has(fields.id)) {
+      errors.push(`${path}.id: "${fields.id}" is used by an earlier rule`);
+    } else {
+      seenIds.add(fields.id);
+    }
+
+    ['name', 'wcagCriteria', 'message'].forEach(field => {
+      if (typeof fields[field] !== 'string' || !(fields[field] as string).trim()) {
+        errors.push(`${path}.${field}: required, expected a non-empty string`);
+      }
+    });
+    ['description', 'suggestion', 'learnMoreUrl'].forEach(field => {
+      if (fields[field] !== undefined && typeof fields[field] !== 'string') {
+        errors.push(`${path}.${field}: expected a string`);
+      }
+    });
+
+    if (typeof fields.wcagCriteria === 'string' && fields.wcagCriteria.trim() && !/^\d+\.\d+(\.\d+)?$/.test(fields.wcagCriteria)) {
+      errors.push(`${path}.wcagCriteria: "${fields.wcagCriteria}" is not a success criterion number, e.g. "1.4.3"`);
+    }
+    if (typeof fields.learnMoreUrl === 'string' && !isWebUrl(fields.learnMoreUrl)) {
+      errors.push(`${path}.learnMoreUrl: expected an http or https URL`);
+    }
+
+    if (typeof fields.selector !== 'string' || !fields.selector.trim()) {
+      errors.push(`${path}.selector: required, expected a CSS selector`);
+    } else if (!isValidSelector(fields.selector)) {
+      errors.push(`${path}.selector: "${fields.selector}" is not a valid CSS selector`);
+    }
+
+    checkEnum(errors, `${path}.principle`, fields.principle, Object.values(WCAGPrinciple));
+    checkEnum(errors, `${path}.level`, fields.level, Object.values(WCAGLevel));
+    checkEnum(errors, `${path}.severity`, fields.severity, Object.values(Severity));
+
+    if (fields.conditions !== undefined) {
+      if (!Array.isArray(fields.conditions)) {
+        errors.push(`${path}.conditions: expected an array of conditions`);
+      } else {
+        fields.conditions.forEach((condition: unknown, conditionIndex) => {
+          validateCondition(errors, `${path}.conditions[${conditionIndex}]`, condition);
+        });
+      }
+    }
+  });
+
+  return errors;
+}
+
+function validateCondition(errors: string[], path: string, condition: unknown) {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    errors.push(`${path}: expected a condition object`);
+    return;
+  }
+
+  const fields = condition as Record<string, unknown>;
+  Object.keys(fields)
+    .filter(field => !CONDITION_FIELDS.includes(field))
+    .forEach(field => errors.push(`${path}.${field}: unknown field (expected ${CONDITION_FIELDS.join(', ')})`));
+
+  checkEnum(errors, `${path}.source`, fields.source, CONDITION_SOURCES);
+  checkEnum(errors, `${path}.operator`, fields.operator, OPERATORS);
+
+  const source = fields.source as DeclarativeConditionSource;
+  const operator = fields.operator as DeclarativeOperator;
+
+  if ((source === 'attribute' || source === 'style') && (typeof fields.name !== 'string' || !fields.name.trim())) {
+    errors.push(`${path}.name: required for ${source} conditions (the ${source === 'attribute' ? 'attribute name' : 'CSS property'})`);
+  }
+  if ((operator === 'exists' || operator === 'missing') && CONDITION_SOURCES.includes(source) && source !== 'attribute') {
+    errors.push(`${path}.operator: "${operator}" only applies to attribute conditions`);
+  }
+
+  if (VALUE_OPERATORS.includes(operator)) {
+    if (operator === 'less-than' || operator === 'greater-than') {
+      if (typeof fields.value !== 'number') {
+        errors.push(`${path}.value: required for "${operator}", expected a number`);
+      }
+    } else if (typeof fields.value !== 'string' && typeof fields.value !== 'number') {
+      // Numbers are compared as text, e.g. { "name": "tabindex", "operator": "equals", "value": 0 }
+      errors.push(`${path}.value: required for "${operator}", expected a string or number`);
+    } else if (operator === 'matches' || operator === 'not-matches') {
+      try {
+        new RegExp(String(fields.value));
+      } catch (e) {
+        errors.push(`${path}.value: "${fields.value}" is not a valid regular expression`);
+      }
+    }
+  } else if (fields.value !== undefined && OPERATORS.includes(operator)) {
+    errors.push(`${path}.value: not used by "${operator}"`);
+  }
+
+  if (fields.ignoreCase !== undefined && typeof fields.ignoreCase !== 'boolean') {
+    errors.push(`${path}.ignoreCase: expected true or false`);
+  }
+}
+
+function checkEnum(errors: string[], path: string, value: unknown, allowed: string[]) {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push(`${path}: expected one of ${allowed.join(', ')}`);
+  }
+}
+
+/**
+ * Check that a URL is absolute and uses http or https, since it becomes a link in the popup and reports
+ */
+function isWebUrl(url: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Check a selector's syntax, where a DOM is available to parse it
+ */
+function isValidSelector(selector: string): boolean {
+  if (typeof document === 'undefined') return true;
+
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Parse and validate a declarative rule set from JSON.
+ * Throws an Error listing every schema problem when it is invalid.
+ */
+export function parseDeclarativeRules(json: string): DeclarativeRuleSet {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Rules are not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateDeclarativeRules(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rules:\n${errors.map(error => `  ${error}`).join('\n')}`);
+  }
+
+  return data as DeclarativeRuleSet;
+}
+
+/**
+ * Compile declarative rules into AccessibilityRule objects (with local IDs, ready to register under a namespace)
+ */
+export function compileDeclarativeRules(ruleSet: DeclarativeRuleSet): AccessibilityRule[] {
+  return ruleSet.rules.map(compileRule);
+}
+
+function compileRule(definition: DeclarativeRule): AccessibilityRule {
+  const conditions = (definition.conditions || []).map(compileCondition);
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description || definition.message,
+    principle: definition.principle,
+    wcagCriteria: definition.wcagCriteria,
+    level: definition.level,
+    check: (root: Element | Document): Violation[] => {
+      const violations: Violation[] = [];
+
+      querySelectorAllDeep(root, definition.selector).forEach((element, index) => {
+        if (!shouldCheckElement(element)) return;
+        if (!conditions.every(condition => condition(element))) return;
+
+        violations.push({
+          id: `${definition.id}-${index}`,
+          ruleId: definition.id,
+          principle: definition.principle,
+          wcagCriteria: definition.wcagCriteria,
+          level: definition.level,
+          severity: definition.severity,
+          // Messages are shown as HTML like the built-in rules' messages, so escape the author's text
+          message: escapeHtml(definition.message),
+          description: escapeHtml(definition.description || definition.message),
+          element: getElementSelector(element),
+          elementRef: registerElement(element),
+          htmlSnippet: element.outerHTML.substring(0, 200),
+          ...(definition.suggestion ? { suggestion: escapeHtml(definition.suggestion) } : {}),
+          ...(definition.learnMoreUrl ? { learnMoreUrl: definition.learnMoreUrl } : {}),
+        });
+      });
+
+      return violations;
+    },
+  };
+}
+
+/**
+ * Turn a condition into a test on an element
+ */
+function compileCondition(condition: DeclarativeCondition): (element: Element) => boolean {
+  const normalize = (text: string) => condition.ignoreCase ? text.toLowerCase() : text;
+  const expected = normalize(String(condition.value ?? ''));
+  const pattern = condition.operator === 'matches' || condition.operator === 'not-matches'
+    ? new RegExp(String(condition.value), condition.ignoreCase ? 'i' : '')
+    : null;
+
+  return element => {
+    const actual = readValue(element, condition);
+
+    switch (condition.operator) {
+      case 'exists': return actual !== null;
+      case 'missing': return actual === null;
+      case 'empty': return !actual || !actual.trim();
+      case 'not-empty': return !!actual && !!actual.trim();
+      case 'equals': return actual !== null && normalize(actual) === expected;
+      case 'not-equals': return actual === null || normalize(actual) !== expected;
+      case 'contains': return actual !== null && normalize(actual).includes(expected);
+      case 'not-contains': return actual === null || !normalize(actual).includes(expected);
+      case 'matches': return actual !== null && pattern!.test(actual);
+      case 'not-matches': return actual === null || !pattern!.test(actual);
+      case 'less-than': return actual !== null && parseFloat(actual) < Number(condition.value);
+      case 'greater-than': return actual !== null && parseFloat(actual) > Number(condition.value);
+      default: return false;
+    }
+  };
+}
+
+/**
+ * Read the value a condition tests; null when an attribute is missing
+ */
+function readValue(element: Element, condition: DeclarativeCondition): string | null {
+  switch (condition.source) {
+    case 'attribute':
+      return element.getAttribute(condition.name!);
+    case 'style': {
+      const view = element.ownerDocument.defaultView;
+      return view ? view.getComputedStyle(element).getPropertyValue(condition.name!) : null;
+    }
+    case 'text':
+      return (element.textContent || '').replace(/\s+/g, ' ').trim();
+    case 'accessibleName':
+      return computeAccessibleName(element);
+    default:
+      return null;
+  }
+}
+
+let loadedNamespace: string | null = null;
+
+/**
+ * Register the declarative rule set saved on the options page, replacing the rules loaded before.
+ * An invalid rule set is logged and leaves no declarative rules registered.
+ */
+export function loadDeclarativeRules(json?: string): AccessibilityRule[] {
+  if (loadedNamespace) {
+    unregisterRules(loadedNamespace);
+    loadedNamespace = null;
+  }
+
+  if (!json || !json.trim()) return [];
+
+  try {
+    const ruleSet = parseDeclarativeRules(json);
+    const namespace = ruleSet.namespace || DEFAULT_RULE_NAMESPACE;
+    const rules = registerRules(namespace, compileDeclarativeRules(ruleSet));
+    loadedNamespace = namespace;
+    return rules;
+  } catch (error) {
+    console.error('Failed to load custom rules:', error);
+    return [];
+  }
+}
@@ -0,0 +1,11 @@
+import perceivableRules from './perceivable';
+import operableRules from './operable';
+import robustRules from './robust';
+import understandableRules from './understandable';
+
+// Combine all rules
+export const allRules = [...perceivableRules, ...operableRules, ...robustRules, ...understandableRules];
+
+export { perceivableRules, operableRules, robustRules, understandableRules };
+
+export default allRules;
@@ -0,0 +1,26 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { runAudit } from '../../engine';
+import { RuleOptionsConfig } from '../../types';
+
+describe('focus-order', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <a href="#main" tabindex="-1">Skip to content</a>
+      <a href="#main" tabindex="-1">Zum Inhalt springen</a>
+      <main id="main"><button tabindex="-1">Close</button></main>
+    `;
+  });
+
+  const flagged = (ruleOptions?: RuleOptionsConfig) => runAudit(document, { include: ['focus-order'], ruleOptions })
+    .violations.filter(violation => violation.id.startsWith('focus-negative-native'))
+    .map(violation => document.querySelector(violation.element)?.textContent);
+
+  it('lets skip links leave the tab order', () => {
+    expect(flagged()).toEqual(['Zum Inhalt springen', 'Close']);
+  });
+
+  it('recognizes skip links by the configured words', () => {
+    expect(flagged({ 'focus-order': { skipLinkTexts: ['springen'] } })).toEqual(['Skip to content', 'Close']);
+    expect(flagged({ 'focus-order': { skipLinkTexts: ['skip', 'Zum Inhalt'] } })).toEqual(['Close']);
+  });
+});
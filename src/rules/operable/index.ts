@@ -1,5 +1,7 @@
-import { AccessibilityRule, Violation, WCAGPrinciple, WCAGLevel, Severity } from '../../types';
-import { getElementSelector, shouldCheckElement, hasAccessibleName } from '../../utils';
+import { AccessibilityRule, BypassBlocksOptions, FocusOrderOptions, LinkPurposeOptions, Violation, WCAGPrinciple, WCAGLevel, Severity } from '../../types';
+import { escapeHtml, getElementSelector, shouldCheckElement, querySelectorAllDeep, querySelectorDeep } from '../../utils';
+import { registerElement } from '../../utils/registry';
+import { computeAccessibleName } from '../../utils/accname';
 
 /**
  * Check for keyboard accessibility
@@ -14,9 +16,10 @@ export const keyboardAccessible: AccessibilityRule = {
   level: WCAGLevel.A,
   check: (root: Element | Document): Violation[] => {
     const violations: Violation[] = [];
+    const reported = new Set<Element>();
     
     // Check for clickable divs/spans without keyboard support
-    const clickableElements = root.querySelectorAll('[onclick], [ng-click], [v-on\\:click]');
+    const clickableElements = querySelectorAllDeep(root, '[onclick], [ng-click], [v-on\\:click]');
     
     clickableElements.forEach((element, index) => {
       // Skip if element should not be checked (hidden, presentation role, etc.)
@@ -31,9 +34,7 @@ export const keyboardAccessible: AccessibilityRule = {
       // If it's not a naturally focusable element and doesn't have tabindex
       if (!['a', 'button', 'input', 'select', 'textarea'].includes(tagName)) {
         if (tabindex === null || parseInt(tabindex) < 0) {
-          const uniqueId = `violation-${Date.now()}-${index}`;
-          element.setAttribute('data-violation', uniqueId);
-          
+          reported.add(element);
           violations.push({
             id: `keyboard-${index}`,
             ruleId: 'keyboard-accessible',
@@ -43,7 +44,8 @@ export const keyboardAccessible: AccessibilityRule = {
             severity: Severity.SERIOUS,
             message: 'Interactive element not keyboard accessible',
             description: `This ${tagName} element has click handlers but cannot be accessed via keyboard.`,
-            element: `[data-violation="${uniqueId}"]`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
             htmlSnippet: element.outerHTML.substring(0, 200),
             suggestion: `Add tabindex="0" and appropriate keyboard event handlers, or use a &lt;button&gt; element instead.`,
             learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/keyboard.html',
@@ -54,7 +56,7 @@ export const keyboardAccessible: AccessibilityRule = {
     
     // Also check for elements with React onClick handlers (cursor: pointer style)
     // React onClick doesn't create onclick attributes, so we detect by cursor style
-    const cursorPointerElements = root.querySelectorAll('div, span');
+    const cursorPointerElements = querySelectorAllDeep(root, 'div, span');
     cursorPointerElements.forEach((element, index) => {
       // Skip if element should not be checked
       if (!shouldCheckElement(element)) {
@@ -71,10 +73,7 @@ export const keyboardAccessible: AccessibilityRule = {
         // If it's not naturally focusable and doesn't have proper tabindex
         if (tabindex === null || parseInt(tabindex) < 0) {
           // Avoid duplicates from the earlier check
-          if (!element.hasAttribute('data-violation')) {
-            const uniqueId = `violation-${Date.now()}-react-${index}`;
-            element.setAttribute('data-violation', uniqueId);
-            
+          if (!reported.has(element)) {
             violations.push({
               id: `keyboard-react-${index}`,
               ruleId: 'keyboard-accessible',
@@ -84,7 +83,8 @@ export const keyboardAccessible: AccessibilityRule = {
               severity: Severity.SERIOUS,
               message: 'Interactive element not keyboard accessible',
               description: `This ${tagName} element appears to be clickable (cursor: pointer) but cannot be accessed via keyboard.`,
-              element: `[data-violation="${uniqueId}"]`,
+              element: getElementSelector(element),
+              elementRef: registerElement(element),
               htmlSnippet: element.outerHTML.substring(0, 200),
               suggestion: `Add tabindex="0" and onKeyDown/onKeyUp handlers for Enter and Space keys, or use a &lt;button&gt; element instead.`,
               learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/keyboard.html',
@@ -102,18 +102,21 @@ export const keyboardAccessible: AccessibilityRule = {
  * Check for proper link text
  * WCAG 2.4.4 - Link Purpose (In Context) (Level A)
  */
-export const linkPurpose: AccessibilityRule = {
+export const linkPurpose: AccessibilityRule<LinkPurposeOptions> = {
   id: 'link-purpose',
   name: 'Links must have descriptive text',
   description: 'Link text should clearly describe the link\'s destination or purpose',
   principle: WCAGPrinciple.OPERABLE,
   wcagCriteria: '2.4.4',
   level: WCAGLevel.A,
-  check: (root: Element | Document): Violation[] => {
+  defaultOptions: {
+    vagueTexts: ['click here', 'read more', 'more', 'here', 'link', 'this'],
+  },
+  check: (root: Element | Document, options: LinkPurposeOptions): Violation[] => {
     const violations: Violation[] = [];
-    const links = root.querySelectorAll('a[href]');
+    const links = querySelectorAllDeep(root, 'a[href]');
     
-    const vagueTexts = ['click here', 'read more', 'more', 'here', 'link', 'this'];
+    const vagueTexts = options.vagueTexts.map(vagueText => vagueText.toLowerCase().trim());
     
     links.forEach((link, index) => {
       // Skip if element should not be checked (hidden, presentation role, etc.)
@@ -121,17 +124,10 @@ export const linkPurpose: AccessibilityRule = {
         return;
       }
       
-      const text = (link.textContent || '').trim().toLowerCase();
-      
-      // Skip if link already has accessible name via aria-label/aria-labelledby
-      if (!text && hasAccessibleName(link)) {
-        return;
-      }
+      // The accessible name covers link text, image alt text, aria-label and aria-labelledby
+      const text = computeAccessibleName(link).toLowerCase();
       
-      if (!text && !hasAccessibleName(link)) {
-        const uniqueId = `violation-${Date.now()}-${index}-empty`;
-        link.setAttribute('data-violation', uniqueId);
-        
+      if (!text) {
         violations.push({
           id: `link-empty-${index}`,
           ruleId: 'link-purpose',
@@ -140,16 +136,14 @@ export const linkPurpose: AccessibilityRule = {
           level: WCAGLevel.A,
           severity: Severity.SERIOUS,
           message: 'Link has no text',
-          description: 'This link has no visible text or aria-label, making it impossible for screen reader users to understand its purpose.',
-          element: `[data-violation="${uniqueId}"]`,
+          description: 'This link has no accessible name (no text, image alt text or aria-label), making it impossible for screen reader users to understand its purpose.',
+          element: getElementSelector(link),
+          elementRef: registerElement(link),
           htmlSnippet: link.outerHTML.substring(0, 200),
           suggestion: 'Add descriptive text inside the link or use aria-label to describe where the link leads.',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/link-purpose-in-context.html',
         });
-      } else if (vagueTexts.includes(text) && !hasAccessibleName(link)) {
-        const uniqueId = `violation-${Date.now()}-${index}-vague`;
-        link.setAttribute('data-violation', uniqueId);
-        
+      } else if (vagueTexts.includes(text)) {
         violations.push({
           id: `link-vague-${index}`,
           ruleId: 'link-purpose',
@@ -158,8 +152,9 @@ export const linkPurpose: AccessibilityRule = {
           level: WCAGLevel.A,
           severity: Severity.MODERATE,
           message: 'Link has vague text',
-          description: `The link text "${text}" is not descriptive enough. Users should be able to understand where the link leads from the text alone.`,
-          element: `[data-violation="${uniqueId}"]`,
+          description: `The link text "${escapeHtml(text)}" is not descriptive enough. Users should be able to understand where the link leads from the text alone.`,
+          element: getElementSelector(link),
+          elementRef: registerElement(link),
           htmlSnippet: link.outerHTML.substring(0, 200),
           suggestion: 'Use more descriptive link text that indicates the destination or purpose of the link.',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/link-purpose-in-context.html',
@@ -175,25 +170,30 @@ export const linkPurpose: AccessibilityRule = {
  * Check for skip navigation links
  * WCAG 2.4.1 - Bypass Blocks (Level A)
  */
-export const bypassBlocks: AccessibilityRule = {
+export const bypassBlocks: AccessibilityRule<BypassBlocksOptions> = {
   id: 'bypass-blocks',
   name: 'Page should have skip navigation link',
   description: 'Pages should provide a way to skip repeated content blocks',
   principle: WCAGPrinciple.OPERABLE,
   wcagCriteria: '2.4.1',
   level: WCAGLevel.A,
-  check: (root: Element | Document): Violation[] => {
+  scope: 'page',
+  defaultOptions: {
+    linkThreshold: 3,
+    skipLinkTexts: ['skip'],
+  },
+  check: (root: Element | Document, options: BypassBlocksOptions): Violation[] => {
     const violations: Violation[] = [];
     
     // Only check pages that have significant navigation structures
     // A page needs skip links when it has:
     // - A <nav> element with multiple links, OR
     // - A header with a navigation menu (multiple links in header)
-    const navElement = root.querySelector('nav');
-    const hasNavigation = navElement && navElement.querySelectorAll('a').length > 3;
+    const navElement = querySelectorDeep(root, 'nav');
+    const hasNavigation = navElement && querySelectorAllDeep(navElement, 'a').length > options.linkThreshold;
     
-    const headerElement = root.querySelector('header');
-    const hasHeaderNav = headerElement && headerElement.querySelectorAll('nav, a').length > 3;
+    const headerElement = querySelectorDeep(root, 'header');
+    const hasHeaderNav = headerElement && querySelectorAllDeep(headerElement, 'nav, a').length > options.linkThreshold;
     
     if (!hasNavigation && !hasHeaderNav) {
       return violations; // No significant navigation to bypass
@@ -201,9 +201,10 @@ export const bypassBlocks: AccessibilityRule = {
     
     // Check for skip links
     const skipLink = root.querySelector('a[href^="#"]:first-of-type');
-    const hasSkipLink = skipLink && (
-      (skipLink.textContent || '').toLowerCase().includes('skip') ||
-      (skipLink.getAttribute('aria-label') || '').toLowerCase().includes('skip')
+    const skipLinkTexts = options.skipLinkTexts.map(skipLinkText => skipLinkText.toLowerCase());
+    const hasSkipLink = skipLink && skipLinkTexts.some(skipLinkText =>
+      (skipLink.textContent || '').toLowerCase().includes(skipLinkText) ||
+      (skipLink.getAttribute('aria-label') || '').toLowerCase().includes(skipLinkText)
     );
     
     if (!hasSkipLink) {
@@ -231,18 +232,22 @@ export const bypassBlocks: AccessibilityRule = {
  * Check for proper focus order and tabindex usage
  * WCAG 2.4.3 - Focus Order (Level A)
  */
-export const focusOrder: AccessibilityRule = {
+export const focusOrder: AccessibilityRule<FocusOrderOptions> = {
   id: 'focus-order',
   name: 'Focus order must be logical and tabindex used properly',
   description: 'Tabindex should not have positive values, and focusable elements should not be hidden',
   principle: WCAGPrinciple.OPERABLE,
   wcagCriteria: '2.4.3',
   level: WCAGLevel.A,
-  check: (root: Element | Document): Violation[] => {
+  defaultOptions: {
+    skipLinkTexts: ['skip'],
+  },
+  check: (root: Element | Document, options: FocusOrderOptions): Violation[] => {
     const violations: Violation[] = [];
+    const skipLinkTexts = options.skipLinkTexts.map(skipLinkText => skipLinkText.toLowerCase());
     
     // Check all elements with tabindex attribute
-    const elementsWithTabindex = root.querySelectorAll('[tabindex]');
+    const elementsWithTabindex = querySelectorAllDeep(root, '[tabindex]');
     
     elementsWithTabindex.forEach((element, index) => {
       const tabindexValue = element.getAttribute('tabindex');
@@ -259,9 +264,6 @@ export const focusOrder: AccessibilityRule = {
           parseFloat(computedStyle.opacity) === 0;
         
         if (isHidden) {
-          const uniqueId = `violation-${Date.now()}-${index}-hidden`;
-          element.setAttribute('data-violation', uniqueId);
-          
           violations.push({
             id: `focus-hidden-focusable-${index}`,
             ruleId: 'focus-order',
@@ -270,8 +272,9 @@ export const focusOrder: AccessibilityRule = {
             level: WCAGLevel.A,
             severity: Severity.MODERATE,
             message: 'Focusable element is hidden',
-            description: `This ${tagName} element has tabindex="${tabindexValue}" but is visually hidden (display: ${computedStyle.display}, visibility: ${computedStyle.visibility}, opacity: ${computedStyle.opacity}). This can confuse keyboard users who tab to invisible elements.`,
-            element: `[data-violation="${uniqueId}"]`,
+            description: `This ${tagName} element has tabindex="${escapeHtml(tabindexValue || '')}" but is visually hidden (display: ${computedStyle.display}, visibility: ${computedStyle.visibility}, opacity: ${computedStyle.opacity}). This can confuse keyboard users who tab to invisible elements.`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
             htmlSnippet: element.outerHTML.substring(0, 200),
             suggestion: 'Either remove the tabindex attribute to make it unfocusable, or make the element visible. If it needs to be visually hidden but accessible, use CSS that keeps it in the accessibility tree (e.g., position: absolute with clip).',
             learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-order.html',
@@ -287,9 +290,6 @@ export const focusOrder: AccessibilityRule = {
       
       // Check for positive tabindex (bad practice)
       if (tabindexNum > 0) {
-        const uniqueId = `violation-${Date.now()}-${index}-positive`;
-        element.setAttribute('data-violation', uniqueId);
-        
         violations.push({
           id: `focus-positive-tabindex-${index}`,
           ruleId: 'focus-order',
@@ -299,7 +299,8 @@ export const focusOrder: AccessibilityRule = {
           severity: Severity.SERIOUS,
           message: `Element has positive tabindex="${tabindexNum}"`,
           description: `This ${tagName} element has tabindex="${tabindexNum}". Positive tabindex values disrupt the natural tab order and are considered bad practice. They make it difficult for keyboard users to navigate predictably.`,
-          element: `[data-violation="${uniqueId}"]`,
+          element: getElementSelector(element),
+          elementRef: registerElement(element),
           htmlSnippet: element.outerHTML.substring(0, 200),
           suggestion: 'Remove the tabindex attribute if this is a naturally focusable element, or change to tabindex="0" to include it in the natural tab order without disrupting the sequence.',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-order.html',
@@ -312,12 +313,9 @@ export const focusOrder: AccessibilityRule = {
         // Only flag if it's not a skip link or intentionally hidden for accessibility
         const text = (element.textContent || '').toLowerCase();
         const ariaLabel = (element.getAttribute('aria-label') || '').toLowerCase();
-        const isSkipLink = text.includes('skip') || ariaLabel.includes('skip');
+        const isSkipLink = skipLinkTexts.some(skipLinkText => text.includes(skipLinkText) || ariaLabel.includes(skipLinkText));
         
         if (!isSkipLink) {
-          const uniqueId = `violation-${Date.now()}-${index}-negative`;
-          element.setAttribute('data-violation', uniqueId);
-          
           violations.push({
             id: `focus-negative-native-${index}`,
             ruleId: 'focus-order',
@@ -327,7 +325,8 @@ export const focusOrder: AccessibilityRule = {
             severity: Severity.MINOR,
             message: 'Native interactive element removed from tab order',
             description: `This ${tagName} element has tabindex="-1", which removes it from the keyboard tab order. Native interactive elements like links and buttons should normally be keyboard accessible.`,
-            element: `[data-violation="${uniqueId}"]`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
             htmlSnippet: element.outerHTML.substring(0, 200),
             suggestion: 'Remove the tabindex="-1" attribute to restore keyboard accessibility, unless this element is intentionally meant to be programmatically focused only (e.g., for focus management in modals or dynamic content).',
             learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-order.html',
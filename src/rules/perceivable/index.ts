@@ -1,20 +1,36 @@
-import { AccessibilityRule, Violation, WCAGPrinciple, WCAGLevel, Severity } from '../../types';
-import { getElementSelector, getRelativeLuminance, getContrastRatio, parseRgbColor, shouldCheckElement, hasAccessibleName } from '../../utils';
+import { AccessibilityRule, ImageAltTextOptions, Violation, WCAGPrinciple, WCAGLevel, Severity } from '../../types';
+import { compilePattern, escapeHtml, getElementSelector, getRelativeLuminance, getContrastRatio, parseRgbColor, shouldCheckElement, querySelectorAllDeep, getComposedParent, hasLayoutEngine } from '../../utils';
+import { registerElement } from '../../utils/registry';
+import { computeAccessibleName, computeAriaName } from '../../utils/accname';
 
 /**
  * Check for images without alt text
  * WCAG 1.1.1 - Non-text Content (Level A)
  */
-export const imageAltText: AccessibilityRule = {
+export const imageAltText: AccessibilityRule<ImageAltTextOptions> = {
   id: 'image-alt-text',
   name: 'Images must have alternative text',
   description: 'All images must have alt attributes to provide text alternatives for screen readers',
   principle: WCAGPrinciple.PERCEIVABLE,
   wcagCriteria: '1.1.1',
   level: WCAGLevel.A,
-  check: (root: Element | Document): Violation[] => {
+  defaultOptions: {
+    genericTerms: ['image', 'photo', 'picture', 'graphic', 'img', 'icon'],
+    filenamePatterns: [
+      '\\.(jpg|jpeg|png|gif|svg|webp|bmp|ico)$',  // File extensions
+      '^(DSC|IMG|PHOTO|IMAGE)_?\\d+',  // Camera filenames
+      '^[a-z0-9_-]{10,}\\.(jpg|png|gif)',  // Long filename-like
+      '^(image|photo|picture|img)\\d+',  // Generic + number
+    ],
+    decorativeSize: 10,
+  },
+  check: (root: Element | Document, options: ImageAltTextOptions): Violation[] => {
     const violations: Violation[] = [];
-    const images = root.querySelectorAll('img');
+    const images = querySelectorAllDeep(root, 'img');
+    const filenamePatterns = options.filenamePatterns
+      .map(compilePattern)
+      .filter((pattern): pattern is RegExp => pattern !== null);
+    const genericTerms = options.genericTerms.map(term => term.toLowerCase().trim());
 
     // Helper function to check if image appears decorative
     const isLikelyDecorative = (img: HTMLImageElement): boolean => {
@@ -23,26 +39,21 @@ export const imageAltText: AccessibilityRule = {
       if (role === 'presentation' || role === 'none') return true;
       
       // Very small images are likely decorative (icons, spacers)
-      const rect = img.getBoundingClientRect();
-      if (rect.width <= 10 || rect.height <= 10) return true;
+      if (hasLayoutEngine()) {
+        const rect = img.getBoundingClientRect();
+        if (rect.width <= options.decorativeSize || rect.height <= options.decorativeSize) return true;
+      }
       
       return false;
     };
 
     // Helper function to check if alt text looks like a filename
     const looksLikeFilename = (text: string): boolean => {
-      const filenamePatterns = [
-        /\.(jpg|jpeg|png|gif|svg|webp|bmp|ico)$/i,  // File extensions
-        /^(DSC|IMG|PHOTO|IMAGE)_?\d+/i,  // Camera filenames
-        /^[a-z0-9_-]{10,}\.(jpg|png|gif)/i,  // Long filename-like
-        /^(image|photo|picture|img)\d+/i,  // Generic + number
-      ];
       return filenamePatterns.some(pattern => pattern.test(text));
     };
 
     // Helper function to check if alt text is generic
     const isGenericAltText = (text: string): boolean => {
-      const genericTerms = ['image', 'photo', 'picture', 'graphic', 'img', 'icon'];
       const normalized = text.toLowerCase().trim();
       return genericTerms.includes(normalized);
     };
@@ -53,19 +64,15 @@ export const imageAltText: AccessibilityRule = {
         return;
       }
       
-      // Skip if element already has accessible name via aria-label/aria-labelledby
-      if (hasAccessibleName(img)) {
+      // Skip if aria-label/aria-labelledby already provide a non-empty name
+      if (computeAriaName(img)) {
         return;
       }
       
       const alt = img.getAttribute('alt');
-      const title = img.getAttribute('title');
       
-      // Check if alt is missing (but only flag if no other accessible name exists)
-      if (alt === null && !title) {
-        const uniqueId = `violation-${Date.now()}-${index}`;
-        img.setAttribute('data-violation', uniqueId);
-        
+      // Check if alt is missing (but only flag if no other accessible name, e.g. title, exists)
+      if (alt === null && !computeAccessibleName(img)) {
         violations.push({
           id: `image-alt-${index}`,
           ruleId: 'image-alt-text',
@@ -75,7 +82,8 @@ export const imageAltText: AccessibilityRule = {
           severity: Severity.CRITICAL,
           message: 'Image missing alt attribute',
           description: 'This image does not have an alt attribute. Screen reader users cannot understand what this image conveys.',
-          element: `[data-violation="${uniqueId}"]`,
+          element: getElementSelector(img),
+          elementRef: registerElement(img),
           htmlSnippet: img.outerHTML.substring(0, 200),
           suggestion: 'Add an alt attribute with a descriptive text. If the image is decorative, use alt="". You can also use aria-label as an alternative.',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content.html',
@@ -85,9 +93,6 @@ export const imageAltText: AccessibilityRule = {
 
       // Check for empty alt on non-decorative images
       if (alt === '' && !isLikelyDecorative(img as HTMLImageElement)) {
-        const uniqueId = `violation-${Date.now()}-${index}-empty`;
-        img.setAttribute('data-violation', uniqueId);
-        
         violations.push({
           id: `image-alt-empty-${index}`,
           ruleId: 'image-alt-text',
@@ -97,7 +102,8 @@ export const imageAltText: AccessibilityRule = {
           severity: Severity.SERIOUS,
           message: 'Non-decorative image has empty alt text',
           description: 'This image appears to be meaningful but has an empty alt attribute. Screen reader users will not be able to understand what this image conveys.',
-          element: `[data-violation="${uniqueId}"]`,
+          element: getElementSelector(img),
+          elementRef: registerElement(img),
           htmlSnippet: img.outerHTML.substring(0, 200),
           suggestion: 'Add descriptive alt text that conveys the purpose and content of the image. If the image is truly decorative, consider adding role="presentation".',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content.html',
@@ -108,9 +114,6 @@ export const imageAltText: AccessibilityRule = {
       // Check for poor quality alt text (filenames, generic terms)
       if (alt && alt.trim().length > 0) {
         if (looksLikeFilename(alt)) {
-          const uniqueId = `violation-${Date.now()}-${index}-filename`;
-          img.setAttribute('data-violation', uniqueId);
-          
           violations.push({
             id: `image-alt-filename-${index}`,
             ruleId: 'image-alt-text',
@@ -119,8 +122,9 @@ export const imageAltText: AccessibilityRule = {
             level: WCAGLevel.A,
             severity: Severity.MODERATE,
             message: 'Image alt text appears to be a filename',
-            description: `The alt text "${alt}" looks like a filename, which is not helpful for screen reader users.`,
-            element: `[data-violation="${uniqueId}"]`,
+            description: `The alt text "${escapeHtml(alt)}" looks like a filename, which is not helpful for screen reader users.`,
+            element: getElementSelector(img),
+            elementRef: registerElement(img),
             htmlSnippet: img.outerHTML.substring(0, 200),
             suggestion: 'Replace the filename with descriptive text that explains what the image shows or its purpose in the context of the page.',
             learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content.html',
@@ -129,9 +133,6 @@ export const imageAltText: AccessibilityRule = {
         }
 
         if (isGenericAltText(alt)) {
-          const uniqueId = `violation-${Date.now()}-${index}-generic`;
-          img.setAttribute('data-violation', uniqueId);
-          
           violations.push({
             id: `image-alt-generic-${index}`,
             ruleId: 'image-alt-text',
@@ -140,8 +141,9 @@ export const imageAltText: AccessibilityRule = {
             level: WCAGLevel.A,
             severity: Severity.MODERATE,
             message: 'Image alt text is too generic',
-            description: `The alt text "${alt}" is too generic and doesn't describe the specific content of the image.`,
-            element: `[data-violation="${uniqueId}"]`,
+            description: `The alt text "${escapeHtml(alt)}" is too generic and doesn't describe the specific content of the image.`,
+            element: getElementSelector(img),
+            elementRef: registerElement(img),
             htmlSnippet: img.outerHTML.substring(0, 200),
             suggestion: 'Use descriptive alt text that specifically describes what the image shows or its purpose. Generic terms like "image" or "photo" are not helpful.',
             learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content.html',
@@ -170,7 +172,7 @@ export const colorContrast: AccessibilityRule = {
     const checkedElements = new Set<Element>();
     
     // Only check visible text elements with actual content
-    const textElements = root.querySelectorAll('p, h1, h2, h3, h4, h5, h6, a, li, td, th, label, button');
+    const textElements = querySelectorAllDeep(root, 'p, h1, h2, h3, h4, h5, h6, a, li, td, th, label, button');
     
     textElements.forEach((element) => {
       // Skip if element should not be checked (hidden, presentation role, etc.)
@@ -191,7 +193,7 @@ export const colorContrast: AccessibilityRule = {
       
       // Skip very small elements (likely icons or decorative)
       const rect = htmlElement.getBoundingClientRect();
-      if (rect.width < 10 || rect.height < 10) return;
+      if (hasLayoutEngine() && (rect.width < 10 || rect.height < 10)) return;
       
       const color = styles.color;
       const backgroundColor = getEffectiveBackgroundColor(htmlElement);
@@ -218,9 +220,6 @@ export const colorContrast: AccessibilityRule = {
       if (contrastRatio < requiredRatio) {
         checkedElements.add(element);
         
-        const uniqueId = `violation-${Date.now()}-${violations.length}`;
-        htmlElement.setAttribute('data-violation', uniqueId);
-        
         violations.push({
           id: `contrast-${element.tagName}-${violations.length}`,
           ruleId: 'color-contrast',
@@ -230,7 +229,8 @@ export const colorContrast: AccessibilityRule = {
           severity: contrastRatio < (requiredRatio - 1) ? Severity.SERIOUS : Severity.MODERATE,
           message: 'Insufficient color contrast',
           description: `Text has a contrast ratio of ${contrastRatio.toFixed(2)}:1, but requires ${requiredRatio}:1. Color: ${color}, Background: ${backgroundColor}`,
-          element: `[data-violation="${uniqueId}"]`,
+          element: getElementSelector(htmlElement),
+          elementRef: registerElement(htmlElement),
           htmlSnippet: element.outerHTML.substring(0, 200),
           suggestion: `Increase contrast to at least ${requiredRatio}:1. Consider using a ${contrastRatio < requiredRatio ? 'darker text color or lighter background' : 'different color combination'}.`,
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/contrast-minimum.html',
@@ -246,15 +246,17 @@ export const colorContrast: AccessibilityRule = {
  * Get effective background color by checking for overlaying elements and traversing up the DOM tree
  */
 function getEffectiveBackgroundColor(element: HTMLElement): string | null {
-  // First, check if there's an element overlaying this one
+  // First, check if there's an element overlaying this one (only possible with a layout engine)
   const rect = element.getBoundingClientRect();
   
   // Check the center point of the element
   const centerX = rect.left + rect.width / 2;
   const centerY = rect.top + rect.height / 2;
   
-  // Get the topmost element at this position
-  const topElement = document.elementFromPoint(centerX, centerY);
+  // Get the topmost element at this position, within the element's own tree scope
+  // so that shadow DOM content isn't mistaken for being covered by its host
+  const treeRoot = element.getRootNode() as Document | ShadowRoot;
+  const topElement = hasLayoutEngine() ? treeRoot.elementFromPoint(centerX, centerY) : null;
   
   // If the top element is not our element or a child, there might be an overlay
   if (topElement && topElement !== element && !element.contains(topElement)) {
@@ -278,7 +280,7 @@ function getEffectiveBackgroundColor(element: HTMLElement): string | null {
   }
   
   // No overlay detected or overlay is transparent, traverse up the DOM tree
-  let current: HTMLElement | null = element;
+  let current: Element | null = element;
   
   while (current && current !== document.body.parentElement) {
     const bgColor = window.getComputedStyle(current).backgroundColor;
@@ -290,14 +292,14 @@ function getEffectiveBackgroundColor(element: HTMLElement): string | null {
         const alphaMatch = bgColor.match(/rgba?\([^,]+,[^,]+,[^,]+,\s*([0-9.]+)\)/);
         if (alphaMatch && parseFloat(alphaMatch[1]) < 0.1) {
           // Very transparent, keep looking
-          current = current.parentElement;
+          current = getComposedParent(current);
           continue;
         }
       }
       return bgColor;
     }
     
-    current = current.parentElement;
+    current = getComposedParent(current);
   }
   
   // Default to white if no background found
@@ -316,9 +318,10 @@ export const headingStructure: AccessibilityRule = {
   principle: WCAGPrinciple.PERCEIVABLE,
   wcagCriteria: '1.3.1',
   level: WCAGLevel.A,
+  scope: 'page',
   check: (root: Element | Document): Violation[] => {
     const violations: Violation[] = [];
-    const headings = root.querySelectorAll('h1, h2, h3, h4, h5, h6');
+    const headings = querySelectorAllDeep(root, 'h1, h2, h3, h4, h5, h6');
     
     // Track heading levels and their positions
     const headingLevels: { level: number; element: HTMLHeadingElement; index: number }[] = [];
@@ -331,9 +334,6 @@ export const headingStructure: AccessibilityRule = {
       // Empty headings might be filtered out by visibility checks
       const textContent = htmlHeading.textContent?.trim();
       if (!textContent || textContent.length === 0) {
-        const uniqueId = `violation-${Date.now()}-${index}-empty`;
-        htmlHeading.setAttribute('data-violation', uniqueId);
-        
         violations.push({
           id: `heading-empty-${index}`,
           ruleId: 'heading-structure',
@@ -343,7 +343,8 @@ export const headingStructure: AccessibilityRule = {
           severity: Severity.SERIOUS,
           message: 'Empty heading found',
           description: `An ${htmlHeading.tagName} heading has no text content. Empty headings confuse screen reader users.`,
-          element: `[data-violation="${uniqueId}"]`,
+          element: getElementSelector(htmlHeading),
+          elementRef: registerElement(htmlHeading),
           htmlSnippet: htmlHeading.outerHTML.substring(0, 200),
           suggestion: 'Add descriptive text to the heading or remove it if it serves no purpose.',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html',
@@ -363,8 +364,6 @@ export const headingStructure: AccessibilityRule = {
     const h1Count = headingLevels.filter(h => h.level === 1).length;
     if (h1Count === 0 && headingLevels.length > 0) {
       const firstHeading = headingLevels[0].element;
-      const uniqueId = `violation-${Date.now()}-no-h1`;
-      firstHeading.setAttribute('data-violation', uniqueId);
       
       violations.push({
         id: 'heading-missing-h1',
@@ -375,7 +374,8 @@ export const headingStructure: AccessibilityRule = {
         severity: Severity.SERIOUS,
         message: 'Page missing H1 heading',
         description: 'This page has no H1 heading. The H1 should be used for the main page title to help users understand the page structure.',
-        element: `[data-violation="${uniqueId}"]`,
+        element: getElementSelector(firstHeading),
+        elementRef: registerElement(firstHeading),
         htmlSnippet: `First heading: ${firstHeading.outerHTML.substring(0, 200)}`,
         suggestion: 'Add an H1 heading at the top of the page that describes the main content or purpose of the page.',
         learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html',
@@ -388,9 +388,6 @@ export const headingStructure: AccessibilityRule = {
         .filter(h => h.level === 1)
         .slice(1) // Skip the first H1
         .forEach(({ element, index }) => {
-          const uniqueId = `violation-${Date.now()}-${index}-multiple-h1`;
-          element.setAttribute('data-violation', uniqueId);
-          
           violations.push({
             id: `heading-multiple-h1-${index}`,
             ruleId: 'heading-structure',
@@ -400,7 +397,8 @@ export const headingStructure: AccessibilityRule = {
             severity: Severity.MODERATE,
             message: 'Multiple H1 headings found',
             description: `This page has ${h1Count} H1 headings. Best practice is to have only one H1 per page to clearly identify the main topic.`,
-            element: `[data-violation="${uniqueId}"]`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
             htmlSnippet: element.outerHTML.substring(0, 200),
             suggestion: 'Change additional H1 headings to H2 or lower levels based on their relationship to the main heading.',
             learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html',
@@ -416,9 +414,6 @@ export const headingStructure: AccessibilityRule = {
       
       // If we skip more than one level (e.g., H2 to H4)
       if (levelDifference > 1) {
-        const uniqueId = `violation-${Date.now()}-${current.index}-skipped`;
-        current.element.setAttribute('data-violation', uniqueId);
-        
         violations.push({
           id: `heading-skipped-level-${current.index}`,
           ruleId: 'heading-structure',
@@ -428,7 +423,8 @@ export const headingStructure: AccessibilityRule = {
           severity: Severity.MODERATE,
           message: `Heading level skipped from H${previous.level} to H${current.level}`,
           description: `This H${current.level} heading follows an H${previous.level} heading, skipping ${levelDifference - 1} level(s). This breaks the document outline and confuses screen reader users.`,
-          element: `[data-violation="${uniqueId}"]`,
+          element: getElementSelector(current.element),
+          elementRef: registerElement(current.element),
           htmlSnippet: current.element.outerHTML.substring(0, 200),
           suggestion: `Use H${previous.level + 1} instead, or restructure your headings to follow a logical hierarchy (H1 → H2 → H3, etc.).`,
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html',
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runAudit } from '../engine';
+import { AccessibilityRule, Severity, Violation, WCAGLevel, WCAGPrinciple } from '../types';
+import { getActiveRules, getRegisteredRules, getRuleNamespace, isRuleEnabled, registerRules, setRuleEnabled, unregisterRules } from './registry';
+
+function customRule(id: string, check: AccessibilityRule['check'] = () => []): AccessibilityRule {
+  return {
+    id,
+    name: 'Controls need a data-testid',
+    description: 'Buttons must carry a data-testid for end-to-end tests',
+    principle: WCAGPrinciple.ROBUST,
+    wcagCriteria: '4.1.2',
+    level: WCAGLevel.A,
+    check,
+  };
+}
+
+const violation = (element: Element): Violation => ({
+  id: 'testid-0',
+  ruleId: 'testid-required',
+  principle: WCAGPrinciple.ROBUST,
+  wcagCriteria: '4.1.2',
+  level: WCAGLevel.A,
+  severity: Severity.MINOR,
+  message: 'Button has no data-testid',
+  description: 'Button has no data-testid',
+  element: element.tagName.toLowerCase(),
+  htmlSnippet: element.outerHTML,
+});
+
+describe('rule registry', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<main><button>Save</button></main>';
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unregisterRules('acme');
+    unregisterRules('other');
+    vi.restoreAllMocks();
+  });
+
+  it('namespaces custom rules and reports their violations under the namespaced ID', () => {
+    const [rule] = registerRules('acme', [customRule('testid-required', root => Array.from(root.querySelectorAll('button')).map(violation))]);
+
+    expect(rule.id).toBe('acme/testid-required');
+    expect(getRuleNamespace(rule.id)).toBe('acme');
+    expect(getRuleNamespace('image-alt-text')).toBeNull();
+    expect(runAudit(document, { include: ['acme/testid-required'] }).violations.map(v => v.ruleId)).toEqual(['acme/testid-required']);
+  });
+
+  it('replaces rules registered again with the same ID, and keeps namespaces apart', () => {
+    registerRules('acme', [customRule('testid-required')]);
+    registerRules('acme', [customRule('acme/testid-required')]);
+    registerRules('other', [customRule('testid-required')]);
+
+    expect(getRegisteredRules().map(rule => rule.id).filter(id => getRuleNamespace(id)))
+      .toEqual(['acme/testid-required', 'other/testid-required']);
+  });
+
+  it('rejects invalid namespaces and rules', () => {
+    expect(() => registerRules('Acme', [])).toThrow('Invalid rule namespace "Acme"');
+    expect(() => registerRules('acme', [customRule('Bad ID')])).toThrow('Invalid rule ID "Bad ID"');
+    expect(() => registerRules('acme', [customRule('a'), customRule('a')])).toThrow('Duplicate rule ID(s): acme/a');
+    expect(() => registerRules('acme', [{ ...customRule('a'), level: 'AAAA' as WCAGLevel }])).toThrow('Rule acme/a has an invalid level: AAAA');
+  });
+
+  it('isolates rules that throw or return malformed violations', () => {
+    registerRules('acme', [
+      customRule('throws', () => { throw new Error('boom'); }),
+      customRule('malformed', root => [violation(root.querySelector('button')!), { id: 'half' } as Violation]),
+    ]);
+
+    const { violations } = runAudit(document, { include: ['acme/throws', 'acme/malformed'] });
+
+    expect(violations.map(v => v.ruleId)).toEqual(['acme/malformed']);
+    expect(console.error).toHaveBeenCalledWith('Error running custom rule acme/throws:', expect.any(Error));
+    expect(console.error).toHaveBeenCalledWith('Custom rule acme/malformed returned 1 malformed violation(s), which were dropped');
+  });
+
+  it('turns rules off and on, and forgets the state of unregistered rules', () => {
+    registerRules('acme', [customRule('testid-required')]);
+
+    setRuleEnabled('acme/testid-required', false);
+    setRuleEnabled('image-alt-text', false);
+    expect(isRuleEnabled('acme/testid-required')).toBe(false);
+    expect(getActiveRules().map(rule => rule.id)).not.toContain('image-alt-text');
+
+    setRuleEnabled('image-alt-text', true);
+    expect(getActiveRules().map(rule => rule.id)).toContain('image-alt-text');
+
+    unregisterRules('acme');
+    expect(isRuleEnabled('acme/testid-required')).toBe(true);
+    expect(() => setRuleEnabled('acme/testid-required', false)).toThrow('Unknown rule ID: acme/testid-required');
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Rule registry
+ * Holds the built-in rules plus custom rules registered at runtime. Custom rule IDs are namespaced
+ * ("<namespace>/<id>") so they can't clash with built-in rules or with each other, and custom rules
+ * run isolated: a rule that throws or returns malformed violations is logged and reports nothing.
+ */
+
+import { AccessibilityRule, Severity, Violation, WCAGLevel, WCAGPrinciple } from '../types';
+import { allRules } from './index';
+
+const NAMESPACE_PATTERN = /^[a-z][a-z0-9-]*$/;
+const NAMESPACE_SEPARATOR = '/';
+
+let customRules: AccessibilityRule[] = [];
+const disabledRuleIds = new Set<string>();
+
+/**
+ * Register custom rules under a namespace, replacing rules registered earlier with the same IDs.
+ * Throws if the namespace or a rule is invalid. Returns the registered rules with their namespaced IDs.
+ *
+ * @example
+ * registerRules('acme', [{ id: 'testid-required', name: 'Controls need a data-testid', ... }]);
+ * // Registered as "acme/testid-required"
+ */
+export function registerRules(namespace: string, rules: AccessibilityRule[]): AccessibilityRule[] {
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    throw new Error(`Invalid rule namespace "${namespace}": use lowercase letters, digits and hyphens, starting with a letter`);
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error('Rules must be an array');
+  }
+
+  const registered = rules.map(rule => createCustomRule(namespace, rule));
+
+  const ids = registered.map(rule => rule.id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate rule ID(s): ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+
+  customRules = [...customRules.filter(rule => !ids.includes(rule.id)), ...registered];
+  return registered;
+}
+
+/**
+ * Remove every custom rule registered under a namespace
+ */
+export function unregisterRules(namespace: string) {
+  const prefix = `${namespace}${NAMESPACE_SEPARATOR}`;
+  customRules = customRules.filter(rule => !rule.id.startsWith(prefix));
+  Array.from(disabledRuleIds)
+    .filter(id => id.startsWith(prefix))
+    .forEach(id => disabledRuleIds.delete(id));
+}
+
+/**
+ * Get every registered rule: the built-in rules followed by custom rules, enabled or not
+ */
+export function getRegisteredRules(): AccessibilityRule[] {
+  return [...allRules, ...customRules];
+}
+
+/**
+ * Get the registered rules that are enabled
+ */
+export function getActiveRules(): AccessibilityRule[] {
+  return getRegisteredRules().filter(rule => !disabledRuleIds.has(rule.id));
+}
+
+/**
+ * Turn a registered rule (built-in or custom) on or off for audits that use the registry
+ */
+export function setRuleEnabled(id: string, enabled: boolean) {
+  if (!getRegisteredRules().some(rule => rule.id === id)) {
+    throw new Error(`Unknown rule ID: ${id}`);
+  }
+
+  if (enabled) {
+    disabledRuleIds.delete(id);
+  } else {
+    disabledRuleIds.add(id);
+  }
+}
+
+/**
+ * Check if a registered rule is enabled
+ */
+export function isRuleEnabled(id: string): boolean {
+  return !disabledRuleIds.has(id);
+}
+
+/**
+ * Get the namespace of a custom rule ID, or null for built-in rules
+ */
+export function getRuleNamespace(id: string): string | null {
+  const index = id.indexOf(NAMESPACE_SEPARATOR);
+  return index === -1 ? null : id.slice(0, index);
+}
+
+/**
+ * Validate a custom rule and wrap it with a namespaced ID and an isolated check
+ */
+function createCustomRule(namespace: string, rule: AccessibilityRule): AccessibilityRule {
+  if (!rule || typeof rule !== 'object') {
+    throw new Error('Each rule must be an object');
+  }
+
+  // Accept IDs that already carry this namespace, so registering a rule twice is harmless
+  const localId = typeof rule.id === 'string' && rule.id.startsWith(`${namespace}${NAMESPACE_SEPARATOR}`)
+    ? rule.id.slice(namespace.length + 1)
+    : rule.id;
+
+  if (typeof localId !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(localId)) {
+    throw new Error(`Invalid rule ID "${String(rule.id)}": use lowercase letters, digits and hyphens`);
+  }
+
+  const id = `${namespace}${NAMESPACE_SEPARATOR}${localId}`;
+
+  if (typeof rule.name !== 'string' || !rule.name) {
+    throw new Error(`Rule ${id} needs a name`);
+  }
+  if (typeof rule.check !== 'function') {
+    throw new Error(`Rule ${id} needs a check function`);
+  }
+  if (!Object.values(WCAGPrinciple).includes(rule.principle)) {
+    throw new Error(`Rule ${id} has an invalid principle: ${String(rule.principle)}`);
+  }
+  if (!Object.values(WCAGLevel).includes(rule.level)) {
+    throw new Error(`Rule ${id} has an invalid level: ${String(rule.level)}`);
+  }
+
+  return {
+    ...rule,
+    id,
+    description: typeof rule.description === 'string' ? rule.description : '',
+    wcagCriteria: typeof rule.wcagCriteria === 'string' ? rule.wcagCriteria : '',
+    check: (root: Element | Document, options: object): Violation[] => {
+      let violations: unknown;
+      try {
+        violations = rule.check(root, options);
+      } catch (error) {
+        console.error(`Error running custom rule ${id}:`, error);
+        return [];
+      }
+
+      if (!Array.isArray(violations)) {
+        console.error(`Custom rule ${id} did not return an array of violations`);
+        return [];
+      }
+
+      const valid = violations.filter(isValidViolation);
+      if (valid.length < violations.length) {
+        console.error(`Custom rule ${id} returned ${violations.length - valid.length} malformed violation(s), which were dropped`);
+      }
+
+      // Report under the namespaced ID, which is what settings, suppressions and filters refer to
+      return valid.map(violation => ({ ...violation, ruleId: id }));
+    },
+  };
+}
+
+/**
+ * Check that a violation from a custom rule has the fields the UI and exporters rely on
+ */
+function isValidViolation(violation: unknown): violation is Violation {
+  if (!violation || typeof violation !== 'object') return false;
+
+  const candidate = violation as Partial<Violation>;
+  return ['id', 'message', 'description', 'element', 'htmlSnippet', 'wcagCriteria'].every(field =>
+    typeof candidate[field as keyof Violation] === 'string'
+  )
+    && Object.values(Severity).includes(candidate.severity as Severity)
+    && Object.values(WCAGPrinciple).includes(candidate.principle as WCAGPrinciple)
+    && Object.values(WCAGLevel).includes(candidate.level as WCAGLevel);
+}
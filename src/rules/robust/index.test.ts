@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { runAudit } from '../../engine';
+import { decodeEntities } from '../../utils';
+
+describe('valid-html', () => {
+  it('escapes duplicated IDs in its message', () => {
+    document.body.innerHTML = `<p id="x&quot;&gt;&lt;img src=y onerror='alert(1)'&gt;">a</p><p id="x&quot;&gt;&lt;img src=y onerror='alert(1)'&gt;">b</p>`;
+
+    const [violation] = runAudit(document, { include: ['valid-html'] }).violations;
+
+    expect(violation.message).not.toMatch(/[<>']/);
+    expect(violation.description).not.toMatch(/[<>']/);
+    expect(decodeEntities(violation.message)).toBe(`Duplicate ID: "x"><img src=y onerror='alert(1)'>"`);
+  });
+});
+
+describe('id-references', () => {
+  const check = () => runAudit(document, { include: ['id-references'] }).violations.map(violation => decodeEntities(violation.message));
+
+  it('passes references that resolve to one element with text', () => {
+    document.body.innerHTML = `
+      <h2 id="title">Billing</h2>
+      <p id="hint">Used for invoices</p>
+      <label for="email">Email</label>
+      <input id="email" aria-labelledby="title" aria-describedby="hint">
+    `;
+
+    expect(check()).toEqual([]);
+  });
+
+  it('reports missing and duplicated IDs', () => {
+    document.body.innerHTML = `
+      <label for="nope">Email</label>
+      <input aria-describedby="hint gone other">
+      <p id="hint">Used for invoices</p>
+      <p id="hint">Also used for receipts</p>
+    `;
+
+    expect(check()).toEqual([
+      'aria-describedby references missing IDs: "gone", "other"',
+      'aria-describedby references duplicated ID: "hint"',
+      'for references missing ID: "nope"',
+    ]);
+  });
+
+  it('reports names and descriptions that come out empty', () => {
+    document.body.innerHTML = `
+      <span id="label"><img src="search.svg" alt=""></span>
+      <span id="hint"></span>
+      <input aria-labelledby="label" aria-describedby="hint">
+    `;
+
+    expect(check()).toEqual(['aria-describedby produces an empty description', 'aria-labelledby produces an empty name']);
+  });
+
+  it('counts hidden targets, since direct references still contribute their text', () => {
+    document.body.innerHTML = '<span id="label" hidden>Search</span><input aria-labelledby="label">';
+
+    expect(check()).toEqual([]);
+  });
+
+  it("doesn't resolve references across shadow roots", () => {
+    document.body.innerHTML = '<p id="outside">Name</p><my-field></my-field>';
+    document.querySelector('my-field')!.attachShadow({ mode: 'open' }).innerHTML = '<input aria-labelledby="outside">';
+
+    expect(check()).toEqual(['aria-labelledby references missing ID: "outside"']);
+  });
+});
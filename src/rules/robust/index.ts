@@ -1,5 +1,85 @@
 import { AccessibilityRule, Violation, WCAGPrinciple, WCAGLevel, Severity } from '../../types';
-import { getElementSelector, shouldCheckElement, hasAccessibleName } from '../../utils';
+import { escapeHtml, getElementSelector, shouldCheckElement, querySelectorAllDeep, getComposedParent } from '../../utils';
+import { registerElement } from '../../utils/registry';
+import { computeAccessibleName, computeReferencedText, getReferencedElements, isHiddenFromAccessibility } from '../../utils/accname';
+import { ARIA_ATTRIBUTES, ARIA_ROLES, getExplicitRole, getRole, isAttributeSupported, isValidAriaValue } from '../../utils/aria';
+
+// Roles that don't take part in ownership: their children are owned by the nearest ancestor with a role
+const TRANSPARENT_ROLES = ['generic', 'none', 'presentation'];
+
+// Attributes whose value is an ID reference (IDREF) or a space-separated list of them (IDREFS)
+const IDREF_ATTRIBUTES: { attribute: string; selector: string; list: boolean }[] = [
+  ...Object.entries(ARIA_ATTRIBUTES)
+    .filter(([, definition]) => definition.type === 'idref' || definition.type === 'idrefs')
+    .map(([attribute, definition]) => ({ attribute, selector: `[${attribute}]`, list: definition.type === 'idrefs' })),
+  { attribute: 'for', selector: 'label[for], output[for]', list: false },
+  { attribute: 'list', selector: 'input[list]', list: false },
+  { attribute: 'headers', selector: 'td[headers], th[headers]', list: true },
+];
+
+// IDREFS attributes that provide an accessible name or description from their targets' text
+const TEXT_REFERENCE_ATTRIBUTES = ['aria-labelledby', 'aria-describedby'] as const;
+
+// Native elements that expose a required ARIA state themselves
+const NATIVE_STATES: Record<string, (element: Element) => boolean> = {
+  'aria-checked': element => element.matches('input[type="checkbox"], input[type="radio"]'),
+  'aria-expanded': element => element.matches('select'),
+  'aria-level': element => element.matches('h1, h2, h3, h4, h5, h6'),
+  'aria-valuenow': element => element.matches('input[type="range"], input[type="number"], meter, progress'),
+};
+
+/**
+ * Get the elements an element owns: the nearest descendants with a role, plus aria-owns targets
+ */
+function getOwnedElements(element: Element): Element[] {
+  const owned: Element[] = [];
+
+  const visit = (parent: Element) => {
+    const children = parent.shadowRoot ? Array.from(parent.shadowRoot.children) : Array.from(parent.children);
+
+    children.forEach(child => {
+      if (child.getAttribute('aria-hidden') === 'true' || child.hasAttribute('hidden')) {
+        return;
+      }
+
+      const role = getRole(child);
+      if (!role || TRANSPARENT_ROLES.includes(role)) {
+        visit(child);
+      } else {
+        owned.push(child);
+      }
+    });
+  };
+
+  visit(element);
+  owned.push(...getReferencedElements(element, 'aria-owns'));
+
+  return owned;
+}
+
+/**
+ * Get the role of the element that provides an element's context:
+ * the element that aria-owns it, or else the nearest ancestor with a role
+ */
+function getContextRole(element: Element): string | null {
+  const treeRoot = element.getRootNode() as Document | ShadowRoot;
+  const owner = Array.from(treeRoot.querySelectorAll('[aria-owns]'))
+    .find(candidate => getReferencedElements(candidate, 'aria-owns').includes(element));
+  if (owner) {
+    return getRole(owner);
+  }
+
+  let parent = getComposedParent(element);
+  while (parent) {
+    const role = getRole(parent);
+    if (role && !TRANSPARENT_ROLES.includes(role)) {
+      return role;
+    }
+    parent = getComposedParent(parent);
+  }
+
+  return null;
+}
 
 /**
  * Check for valid HTML structure
@@ -12,12 +92,14 @@ export const validHTML: AccessibilityRule = {
   principle: WCAGPrinciple.ROBUST,
   wcagCriteria: '4.1.1',
   level: WCAGLevel.A,
+  scope: 'page',
   check: (root: Element | Document): Violation[] => {
     const violations: Violation[] = [];
     
     // Check for duplicate IDs
-    const idsMap = new Map<string, Element[]>();
-    const elementsWithId = root.querySelectorAll('[id]');
+    // IDs only need to be unique within their own tree, so each shadow root is tracked separately
+    const idsByScope = new Map<Node, Map<string, Element[]>>();
+    const elementsWithId = querySelectorAllDeep(root, '[id]');
     
     elementsWithId.forEach(element => {
       const id = element.getAttribute('id');
@@ -27,6 +109,12 @@ export const validHTML: AccessibilityRule = {
           return;
         }
         
+        const scope = element.getRootNode();
+        if (!idsByScope.has(scope)) {
+          idsByScope.set(scope, new Map());
+        }
+        const idsMap = idsByScope.get(scope)!;
+        
         if (!idsMap.has(id)) {
           idsMap.set(id, []);
         }
@@ -34,19 +122,17 @@ export const validHTML: AccessibilityRule = {
       }
     });
     
-    idsMap.forEach((elements, id) => {
+    idsByScope.forEach(idsMap => idsMap.forEach((elements, id) => {
       if (elements.length > 1) {
         // Only create one violation per duplicate ID (not one per element)
         // This is better for dynamically generated content
         const firstElement = elements[0];
-        const uniqueId = `violation-${Date.now()}-${id}`;
-        firstElement.setAttribute('data-violation', uniqueId);
         
         // Collect all element selectors for the description
         const elementLocations = elements.map((el, idx) => {
           const tag = el.tagName.toLowerCase();
           const classes = el.className ? `.${el.className}` : '';
-          return `${idx + 1}. <${tag}${classes}>`;
+          return `${idx + 1}. &lt;${tag}${escapeHtml(classes)}&gt;`;
         }).join(', ');
         
         violations.push({
@@ -56,15 +142,16 @@ export const validHTML: AccessibilityRule = {
           wcagCriteria: '4.1.1',
           level: WCAGLevel.A,
           severity: Severity.SERIOUS,
-          message: `Duplicate ID: "${id}"`,
-          description: `The ID "${id}" is used ${elements.length} times on the page. IDs must be unique. Found in: ${elementLocations}`,
-          element: `[data-violation="${uniqueId}"]`,
+          message: `Duplicate ID: "${escapeHtml(id)}"`,
+          description: `The ID "${escapeHtml(id)}" is used ${elements.length} times on the page. IDs must be unique. Found in: ${elementLocations}`,
+          element: getElementSelector(firstElement),
+          elementRef: registerElement(firstElement),
           htmlSnippet: firstElement.outerHTML.substring(0, 200),
           suggestion: 'Ensure each ID is used only once per page. Consider using classes for styling multiple elements, or add unique suffixes to dynamically generated IDs.',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/parsing.html',
         });
       }
-    });
+    }));
 
     return violations;
   },
@@ -85,48 +172,18 @@ export const ariaUsage: AccessibilityRule = {
     const violations: Violation[] = [];
     
     // Check for buttons without accessible names
-    const buttons = root.querySelectorAll('button, [role="button"]');
+    const buttons = querySelectorAllDeep(root, 'button, [role="button"]');
     buttons.forEach((button, index) => {
       // Skip if element should not be checked (hidden, presentation role, etc.)
       if (!shouldCheckElement(button)) {
         return;
       }
       
-      // Get visible text (excluding aria-hidden elements)
-      const getVisibleText = (element: Element): string => {
-        let text = '';
-        element.childNodes.forEach(node => {
-          if (node.nodeType === Node.TEXT_NODE) {
-            text += node.textContent || '';
-          } else if (node.nodeType === Node.ELEMENT_NODE) {
-            const el = node as Element;
-            if (el.getAttribute('aria-hidden') !== 'true') {
-              text += getVisibleText(el);
-            }
-          }
-        });
-        return text.trim();
-      };
-      
-      const text = getVisibleText(button);
-      
-      // Check if button has inner elements with accessible names
-      const hasInnerAccessibleContent = 
-        button.querySelector('img[alt]') || 
-        button.querySelector('[aria-label]') ||
-        button.querySelector('[aria-labelledby]');
-      
-      // Button is accessible if it has:
-      // 1. Visible text content (excluding aria-hidden)
-      // 2. aria-label or aria-labelledby (checked via hasAccessibleName)
-      // 3. Inner elements with accessible content
-      if (text || hasAccessibleName(button) || hasInnerAccessibleContent) {
+      // The accessible name covers text content, alt text of inner images, aria-label and aria-labelledby
+      if (computeAccessibleName(button)) {
         return;
       }
       
-      const uniqueId = `violation-${Date.now()}-button-${index}`;
-      button.setAttribute('data-violation', uniqueId);
-      
       violations.push({
         id: `button-no-name-${index}`,
         ruleId: 'aria-usage',
@@ -136,7 +193,8 @@ export const ariaUsage: AccessibilityRule = {
         severity: Severity.CRITICAL,
         message: 'Button has no accessible name',
         description: 'This button has no visible text or aria-label, making it impossible for screen readers to announce its purpose.',
-        element: `[data-violation="${uniqueId}"]`,
+        element: getElementSelector(button),
+        elementRef: registerElement(button),
         htmlSnippet: button.outerHTML.substring(0, 200),
         suggestion: 'Add visible text inside the button, or use aria-label to provide an accessible name.',
         learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value.html',
@@ -147,4 +205,350 @@ export const ariaUsage: AccessibilityRule = {
   },
 };
 
-export default [validHTML, ariaUsage];
+/**
+ * Check that ARIA roles are valid and used in the required structure
+ * WCAG 4.1.2 - Name, Role, Value (Level A)
+ */
+export const ariaRoles: AccessibilityRule = {
+  id: 'aria-roles',
+  name: 'ARIA roles must be valid',
+  description: 'Role values must be defined, non-abstract ARIA roles, with the owned elements and context their role requires',
+  principle: WCAGPrinciple.ROBUST,
+  wcagCriteria: '4.1.2',
+  level: WCAGLevel.A,
+  check: (root: Element | Document): Violation[] => {
+    const violations: Violation[] = [];
+    const elements = querySelectorAllDeep(root, '[role]');
+
+    elements.forEach((element, index) => {
+      // Skip if element should not be checked (hidden, presentation role, etc.)
+      if (!shouldCheckElement(element)) {
+        return;
+      }
+
+      const roleAttribute = (element.getAttribute('role') || '').trim();
+      if (!roleAttribute) {
+        return;
+      }
+
+      const role = getExplicitRole(element);
+
+      // Unknown or abstract role with no valid fallback token
+      if (!role) {
+        const tokens = roleAttribute.toLowerCase().split(/\s+/);
+        const isAbstract = tokens.some(token => ARIA_ROLES[token]?.abstract);
+        const roleText = escapeHtml(roleAttribute);
+
+        violations.push({
+          id: `aria-role-${isAbstract ? 'abstract' : 'invalid'}-${index}`,
+          ruleId: 'aria-roles',
+          principle: WCAGPrinciple.ROBUST,
+          wcagCriteria: '4.1.2',
+          level: WCAGLevel.A,
+          severity: Severity.SERIOUS,
+          message: isAbstract ? `Abstract ARIA role: "${roleText}"` : `Unknown ARIA role: "${roleText}"`,
+          description: isAbstract
+            ? `role="${roleText}" is an abstract role. Abstract roles only organize the ARIA taxonomy and are ignored by assistive technologies, so this element's role is not conveyed.`
+            : `role="${roleText}" is not a role defined by WAI-ARIA. Assistive technologies ignore unknown roles, so this element's role is not conveyed.`,
+          element: getElementSelector(element),
+          elementRef: registerElement(element),
+          htmlSnippet: element.outerHTML.substring(0, 200),
+          suggestion: 'Use a concrete role defined in WAI-ARIA 1.2 (for example button, dialog or navigation), or remove the role attribute and use a native HTML element.',
+          learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value.html',
+        });
+        return;
+      }
+
+      const definition = ARIA_ROLES[role];
+
+      // Required owned elements, e.g. role="list" must own listitems (skipped while content is loading)
+      if (definition.requiredOwned && element.getAttribute('aria-busy') !== 'true') {
+        const requiredOwned = definition.requiredOwned;
+        const owned = getOwnedElements(element);
+        const disallowed = owned.filter(child => !requiredOwned.includes(getRole(child)!));
+        const expected = requiredOwned.join(', ');
+
+        if (owned.length === 0 || disallowed.length > 0) {
+          const disallowedRoles = Array.from(new Set(disallowed.map(child => getRole(child))));
+
+          violations.push({
+            id: `aria-role-owned-${index}`,
+            ruleId: 'aria-roles',
+            principle: WCAGPrinciple.ROBUST,
+            wcagCriteria: '4.1.2',
+            level: WCAGLevel.A,
+            severity: Severity.CRITICAL,
+            message: owned.length === 0
+              ? `Element with role="${role}" is missing required owned elements`
+              : `Element with role="${role}" owns elements with roles it doesn't allow`,
+            description: owned.length === 0
+              ? `Elements with role="${role}" must contain at least one element with role: ${expected}. Without them, screen readers can't announce the structure or the number of items.`
+              : `Elements with role="${role}" may only own elements with role: ${expected}, but this one owns elements with role: ${disallowedRoles.join(', ')}.`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
+            htmlSnippet: element.outerHTML.substring(0, 200),
+            suggestion: `Give the direct children of this element one of the roles ${expected} (elements without a role, like &lt;div&gt;, are skipped), or use aria-owns for children that live elsewhere in the DOM.`,
+            learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value.html',
+          });
+        }
+      }
+
+      // Required context, e.g. role="tab" must be inside role="tablist"
+      if (definition.requiredContext) {
+        const contextRole = getContextRole(element);
+        const expected = definition.requiredContext.join(', ');
+
+        if (!contextRole || !definition.requiredContext.includes(contextRole)) {
+          violations.push({
+            id: `aria-role-context-${index}`,
+            ruleId: 'aria-roles',
+            principle: WCAGPrinciple.ROBUST,
+            wcagCriteria: '4.1.2',
+            level: WCAGLevel.A,
+            severity: Severity.CRITICAL,
+            message: `Element with role="${role}" is not in its required context`,
+            description: `Elements with role="${role}" must be owned by an element with role: ${expected}, but ${contextRole ? `the closest owner has role="${contextRole}"` : 'no ancestor has a role'}. Screen readers can't tell which group this item belongs to.`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
+            htmlSnippet: element.outerHTML.substring(0, 200),
+            suggestion: `Place this element inside an element with role ${expected}, or reference it from that element with aria-owns.`,
+            learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value.html',
+          });
+        }
+      }
+    });
+
+    return violations;
+  },
+};
+
+/**
+ * Check that ARIA states and properties are valid for the element's role
+ * WCAG 4.1.2 - Name, Role, Value (Level A)
+ */
+export const ariaAttributes: AccessibilityRule = {
+  id: 'aria-attributes',
+  name: 'ARIA attributes must be valid for the role',
+  description: 'ARIA states and properties must exist, be allowed on the element\'s role, have valid values, and include those the role requires',
+  principle: WCAGPrinciple.ROBUST,
+  wcagCriteria: '4.1.2',
+  level: WCAGLevel.A,
+  check: (root: Element | Document): Violation[] => {
+    const violations: Violation[] = [];
+    const elements = querySelectorAllDeep(root, '*');
+
+    elements.forEach((element, index) => {
+      const ariaAttributes = element.getAttributeNames().filter(name => name.startsWith('aria-'));
+      const explicitRole = getExplicitRole(element);
+
+      if (ariaAttributes.length === 0 && !explicitRole) {
+        return;
+      }
+
+      // Skip if element should not be checked (hidden, presentation role, etc.)
+      if (!shouldCheckElement(element)) {
+        return;
+      }
+
+      const role = getRole(element);
+      const baseViolation = {
+        ruleId: 'aria-attributes',
+        principle: WCAGPrinciple.ROBUST,
+        wcagCriteria: '4.1.2',
+        level: WCAGLevel.A,
+        htmlSnippet: element.outerHTML.substring(0, 200),
+        learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value.html',
+      };
+
+      // Attributes that aren't defined by WAI-ARIA (often typos like aria-lable)
+      const unknown = ariaAttributes.filter(name => !ARIA_ATTRIBUTES[name]);
+      if (unknown.length > 0) {
+        const unknownText = escapeHtml(unknown.join(', '));
+        violations.push({
+          ...baseViolation,
+          id: `aria-attr-unknown-${index}`,
+          severity: Severity.SERIOUS,
+          message: `Unknown ARIA attribute${unknown.length > 1 ? 's' : ''}: ${unknownText}`,
+          description: `${unknownText} ${unknown.length > 1 ? 'are not attributes' : 'is not an attribute'} defined by WAI-ARIA, so assistive technologies ignore ${unknown.length > 1 ? 'them' : 'it'}.`,
+          element: getElementSelector(element),
+          elementRef: registerElement(element),
+          suggestion: 'Check the attribute name for typos, or remove it.',
+        });
+      }
+
+      // Values that don't match the attribute's type, e.g. aria-expanded="yes"
+      ariaAttributes.forEach(name => {
+        const definition = ARIA_ATTRIBUTES[name];
+        const value = element.getAttribute(name) || '';
+
+        // An empty value is treated as if the attribute were absent
+        if (!definition || !value.trim() || isValidAriaValue(definition, value)) {
+          return;
+        }
+
+        const expected = definition.values
+          ? definition.values.map(allowed => `"${allowed}"`).join(', ')
+          : `a value of type ${definition.type}`;
+
+        const valueText = escapeHtml(value);
+        violations.push({
+          ...baseViolation,
+          id: `aria-attr-value-${name}-${index}`,
+          severity: Severity.CRITICAL,
+          message: `Invalid value for ${name}: "${valueText}"`,
+          description: `${name}="${valueText}" is not a valid value. ${name} expects ${expected}. Assistive technologies may ignore the attribute or report the wrong state.`,
+          element: getElementSelector(element),
+          elementRef: registerElement(element),
+          suggestion: `Set ${name} to ${expected}.`,
+        });
+      });
+
+      // Attributes that the element's role doesn't support (or prohibits)
+      if (role) {
+        const unsupported = ariaAttributes.filter(name => ARIA_ATTRIBUTES[name] && !isAttributeSupported(name, role));
+        if (unsupported.length > 0) {
+          violations.push({
+            ...baseViolation,
+            id: `aria-attr-unsupported-${index}`,
+            severity: Severity.SERIOUS,
+            message: `ARIA attribute${unsupported.length > 1 ? 's' : ''} not allowed on role "${role}": ${unsupported.join(', ')}`,
+            description: `${unsupported.join(', ')} ${unsupported.length > 1 ? 'are' : 'is'} not supported on elements with role="${role}". Assistive technologies will ignore ${unsupported.length > 1 ? 'them' : 'it'} or announce conflicting information.`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
+            suggestion: 'Remove the attribute, or use a role that supports it.',
+          });
+        }
+      }
+
+      // States and properties the explicit role requires, e.g. role="checkbox" needs aria-checked
+      const required = explicitRole ? ARIA_ROLES[explicitRole].requiredAttributes || [] : [];
+      const missing = required.filter(name =>
+        !(element.getAttribute(name) || '').trim() && !NATIVE_STATES[name]?.(element)
+      );
+      if (missing.length > 0) {
+        violations.push({
+          ...baseViolation,
+          id: `aria-attr-required-${index}`,
+          severity: Severity.CRITICAL,
+          message: `Element with role="${explicitRole}" is missing required ARIA attribute${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`,
+          description: `Elements with role="${explicitRole}" must have ${missing.join(' and ')}. Without ${missing.length > 1 ? 'them' : 'it'}, screen readers can't report the state or value of this control.`,
+          element: getElementSelector(element),
+          elementRef: registerElement(element),
+          suggestion: `Add ${missing.join(' and ')} and keep ${missing.length > 1 ? 'them' : 'it'} updated as the control changes.`,
+        });
+      }
+    });
+
+    return violations;
+  },
+};
+
+/**
+ * Check that ID references point at exactly one existing element
+ * WCAG 4.1.2 - Name, Role, Value (Level A)
+ */
+export const idReferences: AccessibilityRule = {
+  id: 'id-references',
+  name: 'ID references must resolve',
+  description: 'aria-labelledby, aria-describedby, aria-controls, label[for] and other ID references must point at a single existing element',
+  principle: WCAGPrinciple.ROBUST,
+  wcagCriteria: '4.1.2',
+  level: WCAGLevel.A,
+  scope: 'page',
+  check: (root: Element | Document): Violation[] => {
+    const violations: Violation[] = [];
+
+    // IDs resolve within their own tree, so each shadow root gets its own index
+    const idsByScope = new Map<Node, Map<string, number>>();
+    const countId = (element: Element, id: string): number => {
+      const scope = element.getRootNode() as Document | ShadowRoot;
+      if (!idsByScope.has(scope)) {
+        const counts = new Map<string, number>();
+        scope.querySelectorAll('[id]').forEach(target => {
+          counts.set(target.id, (counts.get(target.id) || 0) + 1);
+        });
+        idsByScope.set(scope, counts);
+      }
+      return idsByScope.get(scope)!.get(id) || 0;
+    };
+
+    IDREF_ATTRIBUTES.forEach(({ attribute, selector, list }) => {
+      querySelectorAllDeep(root, selector).forEach((element, index) => {
+        // Skip if element should not be checked (hidden, presentation role, etc.)
+        if (!shouldCheckElement(element)) {
+          return;
+        }
+
+        const value = (element.getAttribute(attribute) || '').trim();
+        if (!value) {
+          return;
+        }
+
+        const ids = list ? value.split(/\s+/) : [value];
+        const tag = element.tagName.toLowerCase();
+        const baseViolation = {
+          ruleId: 'id-references',
+          principle: WCAGPrinciple.ROBUST,
+          wcagCriteria: '4.1.2',
+          level: WCAGLevel.A,
+          htmlSnippet: element.outerHTML.substring(0, 200),
+          learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value.html',
+        };
+
+        // IDs come from the page, so they are escaped before going into messages
+        const quoteIds = (list: string[]) => list.map(id => `"${escapeHtml(id)}"`).join(', ');
+
+        const missing = ids.filter(id => countId(element, id) === 0);
+        if (missing.length > 0) {
+          violations.push({
+            ...baseViolation,
+            id: `idref-missing-${attribute}-${index}`,
+            severity: Severity.SERIOUS,
+            message: `${attribute} references missing ID${missing.length > 1 ? 's' : ''}: ${quoteIds(missing)}`,
+            description: `The ${attribute} attribute on this &lt;${tag}&gt; points at ${quoteIds(missing)}, but no element with ${missing.length > 1 ? 'those IDs exists' : 'that ID exists'} in the same document or shadow root. The relationship is lost for assistive technologies.`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
+            suggestion: `Update ${attribute} to reference an existing element's ID, or add the missing element. References can't cross shadow DOM boundaries.`,
+          });
+        }
+
+        const duplicated = ids.filter(id => countId(element, id) > 1);
+        if (duplicated.length > 0) {
+          violations.push({
+            ...baseViolation,
+            id: `idref-duplicate-${attribute}-${index}`,
+            severity: Severity.SERIOUS,
+            message: `${attribute} references duplicated ID${duplicated.length > 1 ? 's' : ''}: ${quoteIds(duplicated)}`,
+            description: `The ${attribute} attribute on this &lt;${tag}&gt; points at ${quoteIds(duplicated)}, which ${duplicated.length > 1 ? 'are' : 'is'} used by more than one element. Browsers pick the first match, which may not be the intended target.`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
+            suggestion: 'Make the referenced IDs unique so the reference has a single target.',
+          });
+        }
+
+        // Naming references that resolve but contribute no text, typically because the target is hidden or empty
+        const textAttribute = TEXT_REFERENCE_ATTRIBUTES.find(name => name === attribute);
+        if (textAttribute && missing.length < ids.length && !computeReferencedText(element, textAttribute)) {
+          const targets = getReferencedElements(element, textAttribute);
+          const hidden = targets.some(target => isHiddenFromAccessibility(target));
+          const purpose = textAttribute === 'aria-labelledby' ? 'name' : 'description';
+
+          violations.push({
+            ...baseViolation,
+            id: `idref-empty-${attribute}-${index}`,
+            severity: textAttribute === 'aria-labelledby' ? Severity.SERIOUS : Severity.MODERATE,
+            message: `${attribute} produces an empty ${purpose}`,
+            description: `The ${attribute} attribute on this &lt;${tag}&gt; points at ${hidden ? 'hidden ' : ''}element${targets.length > 1 ? 's' : ''} with no text, so the computed ${purpose} is empty.`,
+            element: getElementSelector(element),
+            elementRef: registerElement(element),
+            suggestion: `Reference elements that contain text, or use aria-${purpose === 'name' ? 'label' : 'description'} instead.`,
+          });
+        }
+      });
+    });
+
+    return violations;
+  },
+};
+
+export default [validHTML, ariaUsage, ariaRoles, ariaAttributes, idReferences];
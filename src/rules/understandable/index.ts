@@ -1,5 +1,21 @@
-import { AccessibilityRule, Violation, WCAGPrinciple, WCAGLevel, Severity } from '../../types';
-import { shouldCheckElement, hasAccessibleName } from '../../utils';
+import { AccessibilityRule, RequiredFieldsOptions, Violation, WCAGPrinciple, WCAGLevel, Severity } from '../../types';
+import { compilePattern, escapeHtml, getElementSelector, shouldCheckElement, querySelectorAllDeep } from '../../utils';
+import { registerElement } from '../../utils/registry';
+import { computeAccessibleName, computeAriaName, getReferencedElements } from '../../utils/accname';
+
+/**
+ * Check if a form control has a label that is rendered on the page:
+ * a non-empty <label> or aria-labelledby pointing at visible text
+ */
+function hasVisibleLabel(input: Element): boolean {
+  const labels = (input as HTMLInputElement).labels;
+  if (labels && Array.from(labels).some(label => (label.textContent || '').trim())) {
+    return true;
+  }
+
+  return getReferencedElements(input, 'aria-labelledby')
+    .some(ref => shouldCheckElement(ref) && (ref.textContent || '').trim());
+}
 
 /**
  * Check for form labels and instructions
@@ -16,7 +32,7 @@ export const formLabels: AccessibilityRule = {
     const violations: Violation[] = [];
     
     // Check all form inputs (excluding hidden, submit, and button types)
-    const inputs = root.querySelectorAll('input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), textarea, select');
+    const inputs = querySelectorAllDeep(root, 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), textarea, select');
     
     inputs.forEach((input, index) => {
       // Skip if element should not be checked (hidden, presentation role, etc.)
@@ -24,62 +40,11 @@ export const formLabels: AccessibilityRule = {
         return;
       }
       
-      const id = input.getAttribute('id');
       const type = input.getAttribute('type') || 'text';
+      const inputName = input.getAttribute('name') || 'unknown';
+      const accessibleName = computeAccessibleName(input);
       
-      let hasLabel = false;
-      
-      // Check for associated label via for attribute
-      if (id) {
-        const label = root.querySelector(`label[for="${id}"]`);
-        hasLabel = !!label;
-      }
-      
-      // Check if input is wrapped in a label
-      const parentLabel = input.closest('label');
-      if (parentLabel) {
-        hasLabel = true;
-      }
-      
-      // Check if input has aria-label/aria-labelledby but no visible label
-      const hasAriaLabel = hasAccessibleName(input);
-      
-      // Flag inputs with only aria-label as moderate violation (best practice)
-      if (!hasLabel && hasAriaLabel) {
-        const uniqueId = `violation-${Date.now()}-${index}-aria-only`;
-        input.setAttribute('data-violation', uniqueId);
-        
-        const inputName = input.getAttribute('name') || 'unknown';
-        const ariaLabel = input.getAttribute('aria-label') || '';
-        
-        violations.push({
-          id: `form-label-aria-only-${index}`,
-          ruleId: 'form-labels',
-          principle: WCAGPrinciple.UNDERSTANDABLE,
-          wcagCriteria: '3.3.2',
-          level: WCAGLevel.A,
-          severity: Severity.MODERATE,
-          message: 'Form input has aria-label but no visible label',
-          description: `This ${type} input (name: "${inputName}") uses aria-label="${ariaLabel}" but lacks a visible label. While screen readers can access this, visible labels benefit all users including those with cognitive disabilities, and provide larger click targets.`,
-          element: `[data-violation="${uniqueId}"]`,
-          htmlSnippet: input.outerHTML.substring(0, 200),
-          suggestion: 'Add a visible &lt;label&gt; element. You can keep the aria-label as supplementary information if needed.',
-          learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/labels-or-instructions.html',
-        });
-        return; // Skip the critical violation check
-      }
-      
-      // Skip if input has accessible name via aria-label/aria-labelledby
-      if (!hasLabel && hasAriaLabel) {
-        return;
-      }
-      
-      if (!hasLabel) {
-        const uniqueId = `violation-${Date.now()}-${index}-no-label`;
-        input.setAttribute('data-violation', uniqueId);
-        
-        const inputName = input.getAttribute('name') || 'unknown';
-        
+      if (!accessibleName) {
         violations.push({
           id: `form-label-${index}`,
           ruleId: 'form-labels',
@@ -88,13 +53,40 @@ export const formLabels: AccessibilityRule = {
           level: WCAGLevel.A,
           severity: Severity.CRITICAL,
           message: 'Form input missing label',
-          description: `This ${type} input (name: "${inputName}") does not have an associated label. Users, especially those using screen readers, need labels to understand what information to enter.`,
-          element: `[data-violation="${uniqueId}"]`,
+          description: `This ${escapeHtml(type)} input (name: "${escapeHtml(inputName)}") does not have an accessible name. Users, especially those using screen readers, need labels to understand what information to enter.`,
+          element: getElementSelector(input),
+          elementRef: registerElement(input),
           htmlSnippet: input.outerHTML.substring(0, 200),
           suggestion: 'Add a &lt;label&gt; element with a "for" attribute that matches the input\'s id, or wrap the input in a &lt;label&gt;. Alternatively, use aria-label or aria-labelledby.',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/labels-or-instructions.html',
         });
+        return;
       }
+      
+      // The name is only visible when it comes from a <label> or from text referenced by aria-labelledby
+      if (hasVisibleLabel(input)) {
+        return;
+      }
+      
+      // Flag inputs named only by aria-label, title or placeholder as moderate violation (best practice)
+      
+      const source = computeAriaName(input) ? 'aria-label' : input.getAttribute('title') ? 'title' : 'placeholder';
+      
+      violations.push({
+        id: `form-label-aria-only-${index}`,
+        ruleId: 'form-labels',
+        principle: WCAGPrinciple.UNDERSTANDABLE,
+        wcagCriteria: '3.3.2',
+        level: WCAGLevel.A,
+        severity: Severity.MODERATE,
+        message: `Form input has ${source} but no visible label`,
+        description: `This ${escapeHtml(type)} input (name: "${escapeHtml(inputName)}") is named "${escapeHtml(accessibleName)}" by its ${source} attribute but lacks a visible label. While screen readers can access this, visible labels benefit all users including those with cognitive disabilities, and provide larger click targets.`,
+        element: getElementSelector(input),
+        elementRef: registerElement(input),
+        htmlSnippet: input.outerHTML.substring(0, 200),
+        suggestion: `Add a visible &lt;label&gt; element. You can keep the ${source} as supplementary information if needed.`,
+        learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/labels-or-instructions.html',
+      });
     });
     
     return violations;
@@ -112,6 +104,7 @@ export const fieldsetLegend: AccessibilityRule = {
   principle: WCAGPrinciple.UNDERSTANDABLE,
   wcagCriteria: '1.3.1',
   level: WCAGLevel.A,
+  scope: 'page',
   check: (root: Element | Document): Violation[] => {
     const violations: Violation[] = [];
     
@@ -119,8 +112,8 @@ export const fieldsetLegend: AccessibilityRule = {
     const radioGroups = new Map<string, HTMLInputElement[]>();
     const checkboxGroups = new Map<string, HTMLInputElement[]>();
     
-    const radios = root.querySelectorAll('input[type="radio"]');
-    const checkboxes = root.querySelectorAll('input[type="checkbox"]');
+    const radios = querySelectorAllDeep(root, 'input[type="radio"]');
+    const checkboxes = querySelectorAllDeep(root, 'input[type="checkbox"]');
     
     radios.forEach((radio) => {
       if (!shouldCheckElement(radio)) return;
@@ -156,8 +149,6 @@ export const fieldsetLegend: AccessibilityRule = {
         // If not all in the same fieldset, or no fieldset at all
         if (!firstFieldset || !fieldsets.every(fs => fs === firstFieldset)) {
           const firstInput = inputs[0];
-          const uniqueId = `violation-${Date.now()}-radio-${name}`;
-          firstInput.setAttribute('data-violation', uniqueId);
           
           violations.push({
             id: `fieldset-radio-${name}`,
@@ -166,9 +157,10 @@ export const fieldsetLegend: AccessibilityRule = {
             wcagCriteria: '1.3.1',
             level: WCAGLevel.A,
             severity: Severity.SERIOUS,
-            message: `Radio button group "${name}" not in fieldset`,
-            description: `This group of ${inputs.length} radio buttons (name: "${name}") is not properly grouped with a &lt;fieldset&gt; and &lt;legend&gt;. Screen reader users may not understand that these options are related.`,
-            element: `[data-violation="${uniqueId}"]`,
+            message: `Radio button group "${escapeHtml(name)}" not in fieldset`,
+            description: `This group of ${inputs.length} radio buttons (name: "${escapeHtml(name)}") is not properly grouped with a &lt;fieldset&gt; and &lt;legend&gt;. Screen reader users may not understand that these options are related.`,
+            element: getElementSelector(firstInput),
+            elementRef: registerElement(firstInput),
             htmlSnippet: firstInput.outerHTML.substring(0, 200),
             suggestion: 'Wrap all radio buttons in this group with a &lt;fieldset&gt; element and add a &lt;legend&gt; that describes the group.',
             learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html',
@@ -178,8 +170,6 @@ export const fieldsetLegend: AccessibilityRule = {
           const legend = firstFieldset.querySelector('legend');
           if (!legend || !legend.textContent?.trim()) {
             const firstInput = inputs[0];
-            const uniqueId = `violation-${Date.now()}-legend-${name}`;
-            firstInput.setAttribute('data-violation', uniqueId);
             
             violations.push({
               id: `fieldset-legend-${name}`,
@@ -188,9 +178,10 @@ export const fieldsetLegend: AccessibilityRule = {
               wcagCriteria: '1.3.1',
               level: WCAGLevel.A,
               severity: Severity.SERIOUS,
-              message: `Fieldset missing legend for group "${name}"`,
-              description: `The &lt;fieldset&gt; containing radio buttons (name: "${name}") does not have a &lt;legend&gt; element or the legend is empty. The legend provides a description of the group for screen reader users.`,
-              element: `[data-violation="${uniqueId}"]`,
+              message: `Fieldset missing legend for group "${escapeHtml(name)}"`,
+              description: `The &lt;fieldset&gt; containing radio buttons (name: "${escapeHtml(name)}") does not have a &lt;legend&gt; element or the legend is empty. The legend provides a description of the group for screen reader users.`,
+              element: getElementSelector(firstInput),
+              elementRef: registerElement(firstInput),
               htmlSnippet: firstFieldset.outerHTML.substring(0, 200),
               suggestion: 'Add a &lt;legend&gt; element as the first child of the &lt;fieldset&gt; with text that describes what this group of options represents.',
               learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html',
@@ -208,8 +199,6 @@ export const fieldsetLegend: AccessibilityRule = {
         
         if (!firstFieldset || !fieldsets.every(fs => fs === firstFieldset)) {
           const firstInput = inputs[0];
-          const uniqueId = `violation-${Date.now()}-checkbox-${name}`;
-          firstInput.setAttribute('data-violation', uniqueId);
           
           violations.push({
             id: `fieldset-checkbox-${name}`,
@@ -218,9 +207,10 @@ export const fieldsetLegend: AccessibilityRule = {
             wcagCriteria: '1.3.1',
             level: WCAGLevel.A,
             severity: Severity.MODERATE,
-            message: `Checkbox group "${name}" not in fieldset`,
-            description: `This group of ${inputs.length} checkboxes (name: "${name}") should be grouped with a &lt;fieldset&gt; and &lt;legend&gt; for better clarity and accessibility.`,
-            element: `[data-violation="${uniqueId}"]`,
+            message: `Checkbox group "${escapeHtml(name)}" not in fieldset`,
+            description: `This group of ${inputs.length} checkboxes (name: "${escapeHtml(name)}") should be grouped with a &lt;fieldset&gt; and &lt;legend&gt; for better clarity and accessibility.`,
+            element: getElementSelector(firstInput),
+            elementRef: registerElement(firstInput),
             htmlSnippet: firstInput.outerHTML.substring(0, 200),
             suggestion: 'Consider wrapping related checkboxes with a &lt;fieldset&gt; element and add a &lt;legend&gt; that describes the group.',
             learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html',
@@ -229,8 +219,6 @@ export const fieldsetLegend: AccessibilityRule = {
           const legend = firstFieldset.querySelector('legend');
           if (!legend || !legend.textContent?.trim()) {
             const firstInput = inputs[0];
-            const uniqueId = `violation-${Date.now()}-legend-checkbox-${name}`;
-            firstInput.setAttribute('data-violation', uniqueId);
             
             violations.push({
               id: `fieldset-legend-checkbox-${name}`,
@@ -239,9 +227,10 @@ export const fieldsetLegend: AccessibilityRule = {
               wcagCriteria: '1.3.1',
               level: WCAGLevel.A,
               severity: Severity.MODERATE,
-              message: `Fieldset missing legend for checkbox group "${name}"`,
-              description: `The &lt;fieldset&gt; containing checkboxes (name: "${name}") does not have a &lt;legend&gt; element or the legend is empty.`,
-              element: `[data-violation="${uniqueId}"]`,
+              message: `Fieldset missing legend for checkbox group "${escapeHtml(name)}"`,
+              description: `The &lt;fieldset&gt; containing checkboxes (name: "${escapeHtml(name)}") does not have a &lt;legend&gt; element or the legend is empty.`,
+              element: getElementSelector(firstInput),
+              elementRef: registerElement(firstInput),
               htmlSnippet: firstFieldset.outerHTML.substring(0, 200),
               suggestion: 'Add a &lt;legend&gt; element as the first child of the &lt;fieldset&gt; with text that describes what this group represents.',
               learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html',
@@ -259,19 +248,24 @@ export const fieldsetLegend: AccessibilityRule = {
  * Check for required field indicators
  * WCAG 3.3.2 - Labels or Instructions (Level A)
  */
-export const requiredFields: AccessibilityRule = {
+export const requiredFields: AccessibilityRule<RequiredFieldsOptions> = {
   id: 'required-fields',
   name: 'Required fields must be clearly indicated',
   description: 'Required form fields must be programmatically indicated and not rely solely on visual cues',
   principle: WCAGPrinciple.UNDERSTANDABLE,
   wcagCriteria: '3.3.2',
   level: WCAGLevel.A,
-  check: (root: Element | Document): Violation[] => {
+  defaultOptions: {
+    requiredMarkerPattern: '\\*|required|mandatory|obligatory',
+  },
+  check: (root: Element | Document, options: RequiredFieldsOptions): Violation[] => {
     const violations: Violation[] = [];
+    const requiredMarker = compilePattern(options.requiredMarkerPattern);
+    if (!requiredMarker) return violations;
     
     // Find inputs that have visual indicators of being required (like asterisk or "required" text)
     // but don't have proper programmatic indication
-    const inputs = root.querySelectorAll('input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), textarea, select');
+    const inputs = querySelectorAllDeep(root, 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), textarea, select');
     
     inputs.forEach((input, index) => {
       if (!shouldCheckElement(input)) return;
@@ -284,7 +278,8 @@ export const requiredFields: AccessibilityRule = {
       let labelText = '';
       
       if (id) {
-        const label = root.querySelector(`label[for="${id}"]`);
+        const treeRoot = input.getRootNode() as Document | ShadowRoot;
+        const label = treeRoot.querySelector(`label[for="${id}"]`);
         labelText = label?.textContent?.trim() || '';
       } else {
         const parentLabel = input.closest('label');
@@ -292,13 +287,10 @@ export const requiredFields: AccessibilityRule = {
       }
       
       // Look for common visual required indicators in label
-      const hasVisualRequired = /\*|required|mandatory|obligatory/i.test(labelText);
+      const hasVisualRequired = requiredMarker.test(labelText);
       
       // If there's a visual indicator but no programmatic indication
       if (hasVisualRequired && !hasRequiredAttribute && !hasAriaRequired) {
-        const uniqueId = `violation-${Date.now()}-${index}-required`;
-        input.setAttribute('data-violation', uniqueId);
-        
         const inputName = input.getAttribute('name') || 'unknown';
         const type = input.getAttribute('type') || input.tagName.toLowerCase();
         
@@ -310,8 +302,9 @@ export const requiredFields: AccessibilityRule = {
           level: WCAGLevel.A,
           severity: Severity.SERIOUS,
           message: 'Required field not programmatically indicated',
-          description: `This ${type} input (name: "${inputName}") appears to be required based on its label ("${labelText.substring(0, 50)}..."), but does not have the required attribute or aria-required="true". Screen reader users may not know this field is required.`,
-          element: `[data-violation="${uniqueId}"]`,
+          description: `This ${escapeHtml(type)} input (name: "${escapeHtml(inputName)}") appears to be required based on its label ("${escapeHtml(labelText.substring(0, 50))}..."), but does not have the required attribute or aria-required="true". Screen reader users may not know this field is required.`,
+          element: getElementSelector(input),
+          elementRef: registerElement(input),
           htmlSnippet: input.outerHTML.substring(0, 200),
           suggestion: 'Add the "required" attribute to the input element, or use aria-required="true". This ensures screen readers announce that the field is required.',
           learnMoreUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/labels-or-instructions.html',
@@ -39,10 +39,29 @@ export interface Violation {
   severity: Severity;
   message: string;
   description: string;
-  element: string; // CSS selector
+  element: string; // Unique CSS selector, with " >>> " between shadow host and shadow content
+  xpath?: string; // XPath of the element (set by the scanning engine; not available inside shadow roots)
+  elementRef?: string; // Element registry token, only resolvable in the page context that ran the scan
   htmlSnippet: string;
   suggestion?: string;
   learnMoreUrl?: string;
+  frameId?: number; // Chrome frame ID the element lives in (0 or undefined for the top document)
+  framePath?: string[]; // URLs of the nested frames, from the outermost iframe down to the element's frame
+  fingerprint?: string; // Stable hash identifying the same issue across scans (set by the scanning engine)
+}
+
+/**
+ * Summary counts for a set of violations
+ */
+export interface ScanSummary {
+  total: number;
+  critical: number;
+  serious: number;
+  moderate: number;
+  minor: number;
+  byPrinciple: {
+    [key in WCAGPrinciple]: number;
+  };
 }
 
 /**
@@ -52,40 +71,124 @@ export interface ScanResult {
   url: string;
   timestamp: number;
   violations: Violation[];
-  summary: {
-    total: number;
-    critical: number;
-    serious: number;
-    moderate: number;
-    minor: number;
-    byPrinciple: {
-      [key in WCAGPrinciple]: number;
-    };
-  };
+  summary: ScanSummary;
+}
+
+/**
+ * Why a violation was suppressed
+ */
+export type SuppressionStatus = 'accepted' | 'wont-fix' | 'false-positive';
+
+/**
+ * A decision to stop reporting a known violation, matched by its fingerprint
+ */
+export interface Suppression {
+  fingerprint: string;
+  ruleId: string;
+  message: string; // Violation message at the time, so the baseline is readable on its own
+  status: SuppressionStatus;
+  reason: string;
+  createdAt: number;
+  expiresAt?: number; // The violation is reported again after this time
+}
+
+/**
+ * Suppressions for one origin, in the shareable JSON format
+ */
+export interface Baseline {
+  version: 1;
+  origin: string;
+  exportedAt: string; // ISO 8601
+  suppressions: Suppression[];
 }
 
 /**
  * Individual accessibility rule checker
  */
-export interface AccessibilityRule {
+export interface AccessibilityRule<Options extends object = object> {
   id: string;
   name: string;
   description: string;
   principle: WCAGPrinciple;
   wcagCriteria: string;
   level: WCAGLevel;
-  check: (element: Element | Document) => Violation[];
+  scope?: 'page' | 'element'; // 'page' rules need the whole document and are always re-run in full during live monitoring
+  defaultOptions?: Options; // Tunable heuristics; check receives these merged with the configured overrides
+  check(element: Element | Document, options: Options): Violation[];
+}
+
+/**
+ * Options of the image-alt-text rule
+ */
+export interface ImageAltTextOptions {
+  genericTerms: string[]; // Alt texts that say nothing about the image, compared case-insensitively
+  filenamePatterns: string[]; // Regular expressions (case-insensitive) for alt texts that are file names
+  decorativeSize: number; // Images this many pixels wide or high (or less) count as decorative
+}
+
+/**
+ * Options of the link-purpose rule
+ */
+export interface LinkPurposeOptions {
+  vagueTexts: string[]; // Link texts that don't describe the destination, compared case-insensitively
+}
+
+/**
+ * Options of the bypass-blocks rule
+ */
+export interface BypassBlocksOptions {
+  linkThreshold: number; // Pages need a skip link once their navigation has more links than this
+  skipLinkTexts: string[]; // Words that identify a skip link, matched case-insensitively within its text
 }
 
+/**
+ * Options of the focus-order rule
+ */
+export interface FocusOrderOptions {
+  skipLinkTexts: string[]; // Words that identify a skip link, which may be taken out of the tab order
+}
+
+/**
+ * Options of the required-fields rule
+ */
+export interface RequiredFieldsOptions {
+  requiredMarkerPattern: string; // Regular expression (case-insensitive) for visual required markers in labels
+}
+
+/**
+ * Rule option overrides keyed by rule ID, e.g. { "link-purpose": { "vagueTexts": ["hier klicken"] } }.
+ * Options whose names end in "Pattern" or "Patterns" are regular expressions.
+ */
+export type RuleOptionsConfig = Record<string, Record<string, unknown>>;
+
 /**
  * Message types for Chrome extension communication
  */
 export enum MessageType {
   SCAN_PAGE = 'SCAN_PAGE',
+  SCAN_TAB = 'SCAN_TAB',
+  SCAN_UPDATE = 'SCAN_UPDATE',
+  WATCH_START = 'WATCH_START',
+  WATCH_STOP = 'WATCH_STOP',
+  SPA_NAVIGATION = 'SPA_NAVIGATION',
   SCAN_COMPLETE = 'SCAN_COMPLETE',
   HIGHLIGHT_ELEMENT = 'HIGHLIGHT_ELEMENT',
   CLEAR_HIGHLIGHTS = 'CLEAR_HIGHLIGHTS',
   INSPECT_ELEMENT = 'INSPECT_ELEMENT',
+  OPEN_NAVIGATOR = 'OPEN_NAVIGATOR',
+  SPOTLIGHT_ELEMENT = 'SPOTLIGHT_ELEMENT',
+  CLEAR_SPOTLIGHT = 'CLEAR_SPOTLIGHT',
+}
+
+/**
+ * A numbered marker drawn on a violating element in annotate mode
+ */
+export interface Annotation {
+  selector: string;
+  elementRef?: string;
+  severity: Severity;
+  message: string;
+  number: number; // Matches the violation's number in the popup list
 }
 
 /**
@@ -96,15 +199,75 @@ export interface Message {
   data?: any;
 }
 
+/**
+ * User settings, edited on the options page
+ */
+export interface ExtensionSettings {
+  autoScan: boolean;
+  showMinorIssues: boolean;
+  targetLevel: WCAGLevel; // Highest conformance level to check
+  disabledRules: string[]; // Rule IDs to skip
+  ruleOptions: RuleOptionsConfig; // Overrides of the rules' default options
+}
+
+/**
+ * Where a declarative rule condition reads its value from
+ */
+export type DeclarativeConditionSource = 'attribute' | 'style' | 'text' | 'accessibleName';
+
+/**
+ * How a declarative rule condition tests the value
+ */
+export type DeclarativeOperator =
+  | 'exists' | 'missing' // Attribute conditions only
+  | 'empty' | 'not-empty'
+  | 'equals' | 'not-equals' | 'contains' | 'not-contains' | 'matches' | 'not-matches' // Compare with value (matches takes a regular expression)
+  | 'less-than' | 'greater-than'; // Compare numerically, e.g. "12px" as 12
+
+/**
+ * A test on a candidate element; a declarative rule reports candidates that pass all of its conditions
+ */
+export interface DeclarativeCondition {
+  source: DeclarativeConditionSource;
+  name?: string; // Attribute name or CSS property, for attribute and style conditions
+  operator: DeclarativeOperator;
+  value?: string | number;
+  ignoreCase?: boolean;
+}
+
+/**
+ * A rule written as data, compiled into an AccessibilityRule when it is loaded
+ */
+export interface DeclarativeRule {
+  id: string;
+  name: string;
+  description?: string;
+  selector: string; // Candidate elements
+  conditions?: DeclarativeCondition[]; // Without conditions, every candidate is reported
+  principle: WCAGPrinciple;
+  wcagCriteria: string;
+  level: WCAGLevel;
+  severity: Severity;
+  message: string;
+  suggestion?: string;
+  learnMoreUrl?: string;
+}
+
+/**
+ * A set of declarative rules, registered under one namespace
+ */
+export interface DeclarativeRuleSet {
+  namespace?: string; // Defaults to "custom"
+  rules: DeclarativeRule[];
+}
+
 /**
  * Storage structure for scan results
  */
 export interface StoredData {
   lastScan?: ScanResult;
-  scanHistory?: ScanResult[];
-  settings?: {
-    autoScan: boolean;
-    showMinorIssues: boolean;
-    targetLevel: WCAGLevel;
-  };
+  scanHistory?: Record<string, ScanResult[]>; // Recent scans per URL (without fragment), oldest first
+  suppressions?: Record<string, Suppression[]>; // Suppressed violations per origin
+  settings?: Partial<ExtensionSettings>; // Missing keys fall back to DEFAULT_SETTINGS
+  customRules?: string; // Declarative rule set JSON, as edited on the options page
 }
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { computeAccessibleDescription, computeAccessibleName } from './accname';
+
+function render(html: string) {
+  document.body.innerHTML = html;
+}
+
+const nameOf = (selector: string) => computeAccessibleName(document.querySelector(selector)!);
+
+describe('computeAccessibleName', () => {
+  describe('aria-labelledby', () => {
+    it('joins the referenced elements in attribute order and wins over aria-label', () => {
+      render(`
+        <span id="first">Billing</span><span id="last">address</span>
+        <input aria-labelledby="last first" aria-label="Ignored">
+      `);
+
+      expect(nameOf('input')).toBe('address Billing');
+    });
+
+    it('follows only one level of references', () => {
+      render(`
+        <span id="outer" aria-labelledby="inner">Shipping</span>
+        <span id="inner">Not followed</span>
+        <button aria-labelledby="outer"></button>
+      `);
+
+      expect(nameOf('button')).toBe('Shipping');
+    });
+
+    it('includes the element itself when it references its own ID', () => {
+      render('<button id="delete" aria-labelledby="delete file">Delete</button><span id="file">report.pdf</span>');
+
+      expect(nameOf('button')).toBe('Delete report.pdf');
+    });
+
+    it('uses hidden elements that are referenced directly, but not hidden content of visible references', () => {
+      render(`
+        <div hidden><span id="hidden-label">Search <span>the catalog</span></span></div>
+        <span id="visible-label">Sort <span aria-hidden="true">▼</span></span>
+        <input id="search" aria-labelledby="hidden-label">
+        <select id="sort" aria-labelledby="visible-label"></select>
+      `);
+
+      expect(nameOf('#search')).toBe('Search the catalog');
+      expect(nameOf('#sort')).toBe('Sort');
+    });
+
+    it('falls back to other sources when the references are missing or empty', () => {
+      render('<span id="empty"></span><input aria-labelledby="missing empty" title="Coupon code">');
+
+      expect(nameOf('input')).toBe('Coupon code');
+    });
+  });
+
+  describe('labels', () => {
+    it('use <label for> and wrapping labels', () => {
+      render(`
+        <label for="email">Email</label><input id="email">
+        <label>Phone <input id="phone"></label>
+        <label for="zip">ZIP</label><label>code <input id="zip"></label>
+      `);
+
+      expect(nameOf('#email')).toBe('Email');
+      expect(nameOf('#phone')).toBe('Phone');
+      expect(nameOf('#zip')).toBe('ZIP code');
+    });
+
+    it('include the values of controls embedded in them', () => {
+      render(`
+        <label>
+          <input type="checkbox" id="flash">
+          Flash the screen
+          <select><option>1</option><option selected>3</option></select>
+          times, at
+          <input type="range" aria-valuetext="full" value="100">
+          brightness
+        </label>
+      `);
+
+      expect(nameOf('#flash')).toBe('Flash the screen 3 times, at full brightness');
+    });
+
+    it('fall back to title, then placeholder', () => {
+      render('<input id="a" title="Amount" placeholder="0.00"><input id="b" placeholder="0.00">');
+
+      expect(nameOf('#a')).toBe('Amount');
+      expect(nameOf('#b')).toBe('0.00');
+    });
+  });
+
+  describe('native and content names', () => {
+    it('use alt text, legends and captions', () => {
+      render(`
+        <img src="logo.png" alt="Acme" title="Home">
+        <img src="spacer.gif" alt="" title="Spacer">
+        <fieldset><legend>Delivery</legend></fieldset>
+        <table><caption>Orders</caption></table>
+      `);
+
+      expect(nameOf('img[alt="Acme"]')).toBe('Acme');
+      expect(nameOf('img[alt=""]')).toBe('');
+      expect(nameOf('fieldset')).toBe('Delivery');
+      expect(nameOf('table')).toBe('Orders');
+    });
+
+    it('compute names from content for roles that allow it, skipping hidden descendants', () => {
+      render(`
+        <button><img src="trash.svg" alt="Delete"> <span hidden>now</span> item</button>
+        <a href="/cart">Cart <span aria-hidden="true">(3)</span></a>
+        <div id="panel">Not named from content</div>
+      `);
+
+      expect(nameOf('button')).toBe('Delete item');
+      expect(nameOf('a')).toBe('Cart');
+      expect(nameOf('#panel')).toBe('');
+    });
+
+    it('use content inside open shadow roots', () => {
+      render('<close-button id="host" role="button"></close-button>');
+      document.getElementById('host')!.attachShadow({ mode: 'open' }).innerHTML = '<span>Close</span>';
+
+      expect(nameOf('#host')).toBe('Close');
+    });
+  });
+});
+
+describe('computeAccessibleDescription', () => {
+  it('uses aria-describedby, then aria-description, then an unused title', () => {
+    render(`
+      <span id="hint">At least 8 characters</span>
+      <input id="a" aria-label="Password" aria-describedby="hint">
+      <input id="b" aria-label="Password" aria-description="Case sensitive">
+      <input id="c" aria-label="Password" title="Keep it secret">
+      <input id="d" title="Password">
+    `);
+
+    expect(computeAccessibleDescription(document.getElementById('a')!)).toBe('At least 8 characters');
+    expect(computeAccessibleDescription(document.getElementById('b')!)).toBe('Case sensitive');
+    expect(computeAccessibleDescription(document.getElementById('c')!)).toBe('Keep it secret');
+    expect(computeAccessibleDescription(document.getElementById('d')!)).toBe('');
+  });
+});
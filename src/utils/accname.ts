@@ -0,0 +1,359 @@
+/**
+ * Accessible name and description computation
+ * Follows the W3C Accessible Name and Description Computation 1.2 algorithm
+ * https://www.w3.org/TR/accname-1.2/ with HTML mappings from https://www.w3.org/TR/html-aam-1.0/
+ */
+
+import { getComposedParent, hasLayoutEngine } from './index';
+import { NAME_FROM_CONTENT_ROLES, getRole } from './aria';
+
+interface TraversalContext {
+  visited: Set<Node>;
+  inReferenceTraversal: boolean; // Following aria-labelledby / aria-describedby
+  inContentTraversal: boolean; // Computing a name from descendants or label content
+  includeHidden: boolean; // A hidden element was directly referenced, so its hidden content counts
+}
+
+const TEXT_CONTROL_ROLES = ['textbox', 'searchbox'];
+const RANGE_ROLES = ['slider', 'spinbutton', 'scrollbar', 'progressbar', 'meter'];
+const LISTBOX_ROLES = ['combobox', 'listbox'];
+
+/**
+ * Compute the accessible name of an element
+ */
+export function computeAccessibleName(element: Element): string {
+  return normalizeText(computeTextAlternative(element, createContext()));
+}
+
+/**
+ * Compute the accessible description of an element
+ */
+export function computeAccessibleDescription(element: Element): string {
+  const description = computeReferencedText(element, 'aria-describedby');
+  if (description) return description;
+
+  const ariaDescription = (element.getAttribute('aria-description') || '').trim();
+  if (ariaDescription) return ariaDescription;
+
+  // The title attribute describes the element unless it was already used as the name
+  const title = (element.getAttribute('title') || '').trim();
+  if (title && computeAccessibleName(element) !== title) return title;
+
+  return '';
+}
+
+/**
+ * Compute the part of the accessible name provided by aria-labelledby or aria-label
+ */
+export function computeAriaName(element: Element): string {
+  return computeReferencedText(element, 'aria-labelledby') || normalizeText(element.getAttribute('aria-label') || '');
+}
+
+/**
+ * Compute the text that the elements referenced by aria-labelledby or aria-describedby contribute
+ */
+export function computeReferencedText(element: Element, attribute: 'aria-labelledby' | 'aria-describedby'): string {
+  const context = createContext();
+  context.visited.add(element);
+
+  return normalizeText(
+    getReferencedElements(element, attribute)
+      .map(ref => computeTextAlternative(ref, createReferenceContext(context, ref)))
+      .join(' ')
+  );
+}
+
+/**
+ * Get the elements referenced by an ID reference list attribute, resolved within the element's tree
+ */
+export function getReferencedElements(element: Element, attribute: string): Element[] {
+  const ids = (element.getAttribute(attribute) || '').trim().split(/\s+/).filter(id => id);
+  const treeRoot = element.getRootNode() as Document | ShadowRoot;
+
+  return ids
+    .map(id => treeRoot.getElementById(id))
+    .filter((ref): ref is HTMLElement => ref !== null);
+}
+
+/**
+ * Check if an element is hidden from assistive technologies
+ */
+export function isHiddenFromAccessibility(element: Element): boolean {
+  let current: Element | null = element;
+
+  while (current) {
+    if (current.getAttribute('aria-hidden') === 'true') return true;
+    if (current.hasAttribute('hidden')) return true;
+
+    const style = window.getComputedStyle(current);
+    if (style.display === 'none') return true;
+    if (current === element && style.visibility === 'hidden') return true;
+
+    current = getComposedParent(current);
+  }
+
+  return false;
+}
+
+function createContext(): TraversalContext {
+  return { visited: new Set(), inReferenceTraversal: false, inContentTraversal: false, includeHidden: false };
+}
+
+function createReferenceContext(context: TraversalContext, ref: Element): TraversalContext {
+  return {
+    ...context,
+    // An element may reference itself (e.g. a "Delete" button labelled by itself and the file name)
+    visited: new Set(Array.from(context.visited).filter(node => node !== ref)),
+    inReferenceTraversal: true,
+    inContentTraversal: true,
+    includeHidden: isHiddenFromAccessibility(ref),
+  };
+}
+
+/**
+ * Steps 2A-2I of the accname algorithm for a single node
+ */
+function computeTextAlternative(node: Node, context: TraversalContext): string {
+  if (context.visited.has(node)) return '';
+  context.visited.add(node);
+
+  // 2G: Text nodes contribute their text
+  if (node.nodeType === Node.TEXT_NODE) {
+    return node.textContent || '';
+  }
+
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as Element;
+
+  // 2A: Hidden nodes don't contribute, unless directly referenced
+  if (!context.includeHidden && isHiddenFromAccessibility(element)) {
+    return '';
+  }
+
+  // 2B: aria-labelledby, unless already following a reference
+  if (!context.inReferenceTraversal) {
+    const labelledBy = computeLabelledByText(element, context);
+    if (labelledBy.trim()) return labelledBy;
+  }
+
+  const role = getRole(element);
+
+  // 2C: Controls embedded in another element's label contribute their value
+  if (context.inContentTraversal && isEmbeddedControl(element, role)) {
+    return getControlValue(element, role);
+  }
+
+  // 2D: aria-label
+  const ariaLabel = (element.getAttribute('aria-label') || '').trim();
+  if (ariaLabel && role !== 'presentation' && role !== 'none') {
+    return ariaLabel;
+  }
+
+  // 2E: Native host language text alternatives (label, alt, caption, legend, ...)
+  const nativeText = computeNativeTextAlternative(element, context);
+  if (nativeText !== null) return nativeText;
+
+  // 2F: Name from content
+  if (context.inContentTraversal || (role && NAME_FROM_CONTENT_ROLES.includes(role))) {
+    const content = computeContentText(element, context);
+    if (content.trim() || context.inContentTraversal) return content;
+  }
+
+  // 2I: Tooltip attribute
+  return (element.getAttribute('title') || '').trim();
+}
+
+function computeLabelledByText(element: Element, context: TraversalContext): string {
+  return getReferencedElements(element, 'aria-labelledby')
+    .map(ref => computeTextAlternative(ref, createReferenceContext(context, ref)))
+    .join(' ');
+}
+
+/**
+ * Text alternatives defined by HTML for specific elements.
+ * Returns null when the element has none, so the algorithm continues.
+ */
+function computeNativeTextAlternative(element: Element, context: TraversalContext): string | null {
+  const tagName = element.tagName.toLowerCase();
+  const title = (element.getAttribute('title') || '').trim();
+
+  if (tagName === 'input') {
+    const type = (element.getAttribute('type') || 'text').toLowerCase();
+
+    if (['button', 'submit', 'reset'].includes(type)) {
+      const value = element.getAttribute('value');
+      if (value !== null && value.trim()) return value;
+      if (type === 'submit') return 'Submit';
+      if (type === 'reset') return 'Reset';
+      return title || null;
+    }
+
+    if (type === 'image') {
+      return (element.getAttribute('alt') || '').trim() || (element.getAttribute('value') || '').trim() || title || 'Submit Query';
+    }
+  }
+
+  if (['input', 'select', 'textarea', 'meter', 'progress', 'output'].includes(tagName)) {
+    const labelText = getAssociatedLabels(element)
+      .map(label => computeTextAlternative(label, { ...context, inContentTraversal: true }))
+      .join(' ');
+    if (labelText.trim()) return labelText;
+
+    if (title) return title;
+
+    const placeholder = (element.getAttribute('placeholder') || '').trim();
+    return placeholder || null;
+  }
+
+  if (tagName === 'img' || tagName === 'area') {
+    // An explicit alt, even an empty one, is the name; title is only a fallback
+    const alt = element.getAttribute('alt');
+    if (alt !== null) return alt;
+    return title || null;
+  }
+
+  if (tagName === 'fieldset') {
+    return getChildContentText(element, 'legend', context);
+  }
+
+  if (tagName === 'table') {
+    return getChildContentText(element, 'caption', context) ?? (title || null);
+  }
+
+  if (tagName === 'figure') {
+    return getChildContentText(element, 'figcaption', context);
+  }
+
+  if (tagName === 'svg') {
+    const svgTitle = Array.from(element.children).find(child => child.tagName.toLowerCase() === 'title');
+    return svgTitle?.textContent?.trim() || null;
+  }
+
+  if (tagName === 'iframe') {
+    return title || null;
+  }
+
+  return null;
+}
+
+/**
+ * Compute the text of the first child element with a given tag (legend, caption, figcaption)
+ */
+function getChildContentText(element: Element, childTag: string, context: TraversalContext): string | null {
+  const child = Array.from(element.children).find(candidate => candidate.tagName.toLowerCase() === childTag);
+  if (!child) return null;
+
+  const text = computeTextAlternative(child, { ...context, inContentTraversal: true });
+  return text.trim() ? text : null;
+}
+
+/**
+ * Get the <label> elements associated with a form control
+ */
+function getAssociatedLabels(element: Element): Element[] {
+  if ('labels' in element && (element as HTMLInputElement).labels) {
+    return Array.from((element as HTMLInputElement).labels!);
+  }
+
+  const labels: Element[] = [];
+  const id = element.getAttribute('id');
+  if (id) {
+    const treeRoot = element.getRootNode() as Document | ShadowRoot;
+    labels.push(...Array.from(treeRoot.querySelectorAll('label[for]')).filter(label => label.getAttribute('for') === id));
+  }
+
+  const wrappingLabel = element.closest('label');
+  if (wrappingLabel && !labels.includes(wrappingLabel)) {
+    labels.push(wrappingLabel);
+  }
+
+  return labels;
+}
+
+/**
+ * Concatenate the text alternatives of an element's children (2F), including shadow and pseudo-element content
+ */
+function computeContentText(element: Element, context: TraversalContext): string {
+  const childContext = { ...context, inContentTraversal: true };
+  const parts: string[] = [getPseudoContent(element, '::before')];
+
+  getFlattenedChildren(element).forEach(child => {
+    const text = computeTextAlternative(child, childContext);
+    parts.push(child.nodeType === Node.ELEMENT_NODE && !isInline(child as Element) ? ` ${text} ` : text);
+  });
+
+  parts.push(getPseudoContent(element, '::after'));
+
+  return parts.join('');
+}
+
+/**
+ * Children in the flat tree: shadow content for hosts, assigned nodes for slots
+ */
+function getFlattenedChildren(element: Element): Node[] {
+  if (element.shadowRoot) {
+    return Array.from(element.shadowRoot.childNodes);
+  }
+
+  if (element.tagName.toLowerCase() === 'slot') {
+    const assigned = (element as HTMLSlotElement).assignedNodes({ flatten: true });
+    if (assigned.length > 0) return assigned;
+  }
+
+  return Array.from(element.childNodes);
+}
+
+function getPseudoContent(element: Element, pseudo: '::before' | '::after'): string {
+  // Headless DOMs don't compute pseudo-element styles
+  if (!hasLayoutEngine()) return '';
+
+  try {
+    const content = window.getComputedStyle(element, pseudo).content;
+    const match = content && content.match(/^["'](.*)["']$/);
+    return match ? match[1] : '';
+  } catch (e) {
+    return '';
+  }
+}
+
+function isInline(element: Element): boolean {
+  const display = window.getComputedStyle(element).display;
+  return !display || display.startsWith('inline') || display === 'contents';
+}
+
+function isEmbeddedControl(element: Element, role: string | null): boolean {
+  if (!role) return false;
+  return TEXT_CONTROL_ROLES.includes(role) || RANGE_ROLES.includes(role) || LISTBOX_ROLES.includes(role);
+}
+
+/**
+ * Get the current value of an embedded control
+ */
+function getControlValue(element: Element, role: string | null): string {
+  if (role && RANGE_ROLES.includes(role)) {
+    return element.getAttribute('aria-valuetext')
+      || element.getAttribute('aria-valuenow')
+      || (element as HTMLInputElement).value
+      || '';
+  }
+
+  if (role && LISTBOX_ROLES.includes(role)) {
+    if (element.tagName.toLowerCase() === 'select') {
+      return Array.from((element as HTMLSelectElement).selectedOptions).map(option => option.textContent || '').join(' ');
+    }
+    const selected = element.querySelectorAll('[role="option"][aria-selected="true"]');
+    if (selected.length > 0) {
+      return Array.from(selected).map(option => option.textContent || '').join(' ');
+    }
+  }
+
+  if ('value' in element && typeof (element as HTMLInputElement).value === 'string') {
+    return (element as HTMLInputElement).value;
+  }
+
+  return element.textContent || '';
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,407 @@
+/**
+ * ARIA role helpers and data model
+ * Roles and attributes follow WAI-ARIA 1.2 (https://www.w3.org/TR/wai-aria-1.2/),
+ * implicit roles follow the HTML Accessibility API Mappings (html-aam)
+ */
+
+/**
+ * Characteristics of a role that the robust rules validate
+ */
+export interface RoleDefinition {
+  abstract?: boolean; // Abstract roles exist only to build the taxonomy and must not be used by authors
+  requiredOwned?: string[]; // Roles of which at least one owned element is required; no other roles may be owned
+  requiredContext?: string[]; // Roles one of which must be the closest ancestor with a role
+  requiredAttributes?: string[];
+  prohibitedAttributes?: string[];
+}
+
+export type AriaValueType =
+  | 'true/false'
+  | 'true/false/undefined'
+  | 'tristate'
+  | 'idref'
+  | 'idrefs'
+  | 'integer'
+  | 'number'
+  | 'string'
+  | 'token'
+  | 'tokens';
+
+/**
+ * Characteristics of an ARIA state or property
+ */
+export interface AttributeDefinition {
+  type: AriaValueType;
+  values?: string[]; // Allowed values for token and tokens types
+  roles?: string[]; // Roles that support the attribute; global attributes omit this
+}
+
+const NAME_PROHIBITED = ['aria-label', 'aria-labelledby'];
+const ROW_CHILDREN = ['cell', 'columnheader', 'gridcell', 'rowheader'];
+const MENU_CHILDREN = ['group', 'menuitem', 'menuitemcheckbox', 'menuitemradio'];
+const TABLE_CONTAINERS = ['grid', 'table', 'treegrid'];
+const RANGE_WIDGETS = ['meter', 'progressbar', 'scrollbar', 'separator', 'slider', 'spinbutton'];
+const SET_ITEMS = ['article', 'comment', 'listitem', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row', 'tab', 'treeitem'];
+
+/**
+ * WAI-ARIA 1.2 roles, plus DPUB-ARIA and Graphics ARIA roles so they aren't reported as unknown
+ */
+export const ARIA_ROLES: Record<string, RoleDefinition> = {
+  // Abstract roles
+  command: { abstract: true },
+  composite: { abstract: true },
+  input: { abstract: true },
+  landmark: { abstract: true },
+  range: { abstract: true },
+  roletype: { abstract: true },
+  section: { abstract: true },
+  sectionhead: { abstract: true },
+  select: { abstract: true },
+  structure: { abstract: true },
+  widget: { abstract: true },
+  window: { abstract: true },
+
+  // Concrete roles
+  alert: {},
+  alertdialog: {},
+  application: {},
+  article: {},
+  banner: {},
+  blockquote: {},
+  button: {},
+  caption: { prohibitedAttributes: NAME_PROHIBITED },
+  cell: { requiredContext: ['row'] },
+  checkbox: { requiredAttributes: ['aria-checked'] },
+  code: { prohibitedAttributes: NAME_PROHIBITED },
+  columnheader: { requiredContext: ['row'] },
+  combobox: { requiredAttributes: ['aria-expanded'] },
+  comment: {},
+  complementary: {},
+  contentinfo: {},
+  definition: {},
+  deletion: { prohibitedAttributes: NAME_PROHIBITED },
+  dialog: {},
+  directory: {},
+  document: {},
+  emphasis: { prohibitedAttributes: NAME_PROHIBITED },
+  feed: { requiredOwned: ['article'] },
+  figure: {},
+  form: {},
+  generic: { prohibitedAttributes: NAME_PROHIBITED },
+  grid: { requiredOwned: ['row', 'rowgroup'] },
+  gridcell: { requiredContext: ['row'] },
+  group: {},
+  heading: { requiredAttributes: ['aria-level'] },
+  image: {},
+  img: {},
+  insertion: { prohibitedAttributes: NAME_PROHIBITED },
+  link: {},
+  list: { requiredOwned: ['listitem'] },
+  listbox: { requiredOwned: ['group', 'option'] },
+  listitem: { requiredContext: ['directory', 'list'] },
+  log: {},
+  main: {},
+  mark: {},
+  marquee: {},
+  math: {},
+  menu: { requiredOwned: MENU_CHILDREN },
+  menubar: { requiredOwned: MENU_CHILDREN },
+  menuitem: { requiredContext: ['group', 'menu', 'menubar'] },
+  menuitemcheckbox: { requiredContext: ['group', 'menu', 'menubar'], requiredAttributes: ['aria-checked'] },
+  menuitemradio: { requiredContext: ['group', 'menu', 'menubar'], requiredAttributes: ['aria-checked'] },
+  meter: { requiredAttributes: ['aria-valuenow'] },
+  navigation: {},
+  none: { prohibitedAttributes: NAME_PROHIBITED },
+  note: {},
+  option: { requiredContext: ['group', 'listbox'] },
+  paragraph: { prohibitedAttributes: NAME_PROHIBITED },
+  presentation: { prohibitedAttributes: NAME_PROHIBITED },
+  progressbar: {},
+  radio: { requiredAttributes: ['aria-checked'] },
+  radiogroup: {},
+  region: {},
+  row: { requiredContext: ['grid', 'rowgroup', 'table', 'treegrid'], requiredOwned: ROW_CHILDREN },
+  rowgroup: { requiredContext: TABLE_CONTAINERS, requiredOwned: ['row'] },
+  rowheader: { requiredContext: ['row'] },
+  scrollbar: { requiredAttributes: ['aria-controls', 'aria-valuenow'] },
+  search: {},
+  searchbox: {},
+  separator: {},
+  slider: { requiredAttributes: ['aria-valuenow'] },
+  spinbutton: {},
+  status: {},
+  strong: { prohibitedAttributes: NAME_PROHIBITED },
+  subscript: { prohibitedAttributes: NAME_PROHIBITED },
+  suggestion: {},
+  superscript: { prohibitedAttributes: NAME_PROHIBITED },
+  switch: { requiredAttributes: ['aria-checked'] },
+  tab: { requiredContext: ['tablist'] },
+  table: { requiredOwned: ['row', 'rowgroup'] },
+  tablist: { requiredOwned: ['tab'] },
+  tabpanel: {},
+  term: {},
+  textbox: {},
+  time: {},
+  timer: {},
+  toolbar: {},
+  tooltip: {},
+  tree: { requiredOwned: ['group', 'treeitem'] },
+  treegrid: { requiredOwned: ['row', 'rowgroup'] },
+  treeitem: { requiredContext: ['group', 'tree'] },
+
+  // DPUB-ARIA
+  ...Object.fromEntries([
+    'abstract', 'acknowledgments', 'afterword', 'appendix', 'backlink', 'biblioentry', 'bibliography',
+    'biblioref', 'chapter', 'colophon', 'conclusion', 'cover', 'credit', 'credits', 'dedication', 'endnote',
+    'endnotes', 'epigraph', 'epilogue', 'errata', 'example', 'footnote', 'foreword', 'glossary', 'glossref',
+    'index', 'introduction', 'noteref', 'notice', 'pagebreak', 'pagefooter', 'pageheader', 'pagelist', 'part',
+    'preface', 'prologue', 'pullquote', 'qna', 'subtitle', 'tip', 'toc',
+  ].map(name => [`doc-${name}`, {}])),
+
+  // Graphics ARIA
+  'graphics-document': {},
+  'graphics-object': {},
+  'graphics-symbol': {},
+};
+
+/**
+ * WAI-ARIA 1.2 states and properties
+ */
+export const ARIA_ATTRIBUTES: Record<string, AttributeDefinition> = {
+  'aria-activedescendant': {
+    type: 'idref',
+    roles: ['application', 'combobox', 'grid', 'group', 'listbox', 'menu', 'menubar', 'radiogroup', 'searchbox', 'spinbutton', 'tablist', 'textbox', 'toolbar', 'tree', 'treegrid'],
+  },
+  'aria-atomic': { type: 'true/false' },
+  'aria-autocomplete': { type: 'token', values: ['inline', 'list', 'both', 'none'], roles: ['combobox', 'searchbox', 'textbox'] },
+  'aria-braillelabel': { type: 'string' },
+  'aria-brailleroledescription': { type: 'string' },
+  'aria-busy': { type: 'true/false' },
+  'aria-checked': { type: 'tristate', roles: ['checkbox', 'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'switch', 'treeitem'] },
+  'aria-colcount': { type: 'integer', roles: TABLE_CONTAINERS },
+  'aria-colindex': { type: 'integer', roles: ['row', ...ROW_CHILDREN] },
+  'aria-colspan': { type: 'integer', roles: ROW_CHILDREN },
+  'aria-controls': { type: 'idrefs' },
+  'aria-current': { type: 'token', values: ['page', 'step', 'location', 'date', 'time', 'true', 'false'] },
+  'aria-describedby': { type: 'idrefs' },
+  'aria-description': { type: 'string' },
+  'aria-details': { type: 'idrefs' },
+  'aria-disabled': { type: 'true/false' },
+  'aria-dropeffect': { type: 'tokens', values: ['copy', 'execute', 'link', 'move', 'none', 'popup'] },
+  'aria-errormessage': { type: 'idrefs' },
+  'aria-expanded': {
+    type: 'true/false/undefined',
+    roles: ['application', 'button', 'checkbox', 'columnheader', 'combobox', 'gridcell', 'link', 'listbox', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'row', 'rowheader', 'switch', 'tab', 'treeitem'],
+  },
+  'aria-flowto': { type: 'idrefs' },
+  'aria-grabbed': { type: 'true/false/undefined' },
+  'aria-haspopup': { type: 'token', values: ['false', 'true', 'menu', 'listbox', 'tree', 'grid', 'dialog'] },
+  'aria-hidden': { type: 'true/false/undefined' },
+  'aria-invalid': { type: 'token', values: ['grammar', 'false', 'spelling', 'true'] },
+  'aria-keyshortcuts': { type: 'string' },
+  'aria-label': { type: 'string' },
+  'aria-labelledby': { type: 'idrefs' },
+  'aria-level': { type: 'integer', roles: ['comment', 'heading', 'listitem', 'row', 'treeitem'] },
+  'aria-live': { type: 'token', values: ['assertive', 'off', 'polite'] },
+  'aria-modal': { type: 'true/false', roles: ['alertdialog', 'dialog'] },
+  'aria-multiline': { type: 'true/false', roles: ['searchbox', 'textbox'] },
+  'aria-multiselectable': { type: 'true/false', roles: ['grid', 'listbox', 'tablist', 'tree', 'treegrid'] },
+  'aria-orientation': {
+    type: 'token',
+    values: ['horizontal', 'vertical', 'undefined'],
+    roles: ['listbox', 'menu', 'menubar', 'radiogroup', 'scrollbar', 'separator', 'slider', 'tablist', 'toolbar', 'tree', 'treegrid'],
+  },
+  'aria-owns': { type: 'idrefs' },
+  'aria-placeholder': { type: 'string', roles: ['searchbox', 'textbox'] },
+  'aria-posinset': { type: 'integer', roles: SET_ITEMS },
+  'aria-pressed': { type: 'tristate', roles: ['button'] },
+  'aria-readonly': {
+    type: 'true/false',
+    roles: ['checkbox', 'columnheader', 'combobox', 'grid', 'gridcell', 'listbox', 'menuitemcheckbox', 'menuitemradio', 'radiogroup', 'rowheader', 'searchbox', 'slider', 'spinbutton', 'switch', 'textbox', 'treegrid'],
+  },
+  'aria-relevant': { type: 'tokens', values: ['additions', 'all', 'removals', 'text'] },
+  'aria-required': {
+    type: 'true/false',
+    roles: ['checkbox', 'columnheader', 'combobox', 'gridcell', 'listbox', 'radiogroup', 'rowheader', 'searchbox', 'spinbutton', 'switch', 'textbox', 'tree', 'treegrid'],
+  },
+  'aria-roledescription': { type: 'string' },
+  'aria-rowcount': { type: 'integer', roles: TABLE_CONTAINERS },
+  'aria-rowindex': { type: 'integer', roles: ['row', ...ROW_CHILDREN] },
+  'aria-rowspan': { type: 'integer', roles: ROW_CHILDREN },
+  'aria-selected': { type: 'true/false/undefined', roles: ['columnheader', 'gridcell', 'option', 'row', 'rowheader', 'tab', 'treeitem'] },
+  'aria-setsize': { type: 'integer', roles: SET_ITEMS },
+  'aria-sort': { type: 'token', values: ['ascending', 'descending', 'none', 'other'], roles: ['columnheader', 'rowheader'] },
+  'aria-valuemax': { type: 'number', roles: RANGE_WIDGETS },
+  'aria-valuemin': { type: 'number', roles: RANGE_WIDGETS },
+  'aria-valuenow': { type: 'number', roles: RANGE_WIDGETS },
+  'aria-valuetext': { type: 'string', roles: RANGE_WIDGETS },
+};
+
+/**
+ * Roles whose accessible name can be computed from their content
+ */
+export const NAME_FROM_CONTENT_ROLES = [
+  'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row', 'rowheader', 'switch', 'tab',
+  'tooltip', 'treeitem',
+];
+
+const TEXTBOX_INPUT_TYPES = ['text', 'email', 'tel', 'url', 'password'];
+
+/**
+ * Get the role an element has without an explicit role attribute
+ */
+export function getImplicitRole(element: Element): string | null {
+  const tagName = element.tagName.toLowerCase();
+
+  switch (tagName) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href') ? 'link' : null;
+    case 'article':
+      return 'article';
+    case 'aside':
+      return 'complementary';
+    case 'button':
+    case 'summary':
+      return 'button';
+    case 'datalist':
+      return 'listbox';
+    case 'details':
+    case 'fieldset':
+    case 'optgroup':
+      return 'group';
+    case 'dialog':
+      return 'dialog';
+    case 'footer':
+      return element.closest('article, aside, main, nav, section') ? null : 'contentinfo';
+    case 'form':
+      return 'form';
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return 'heading';
+    case 'header':
+      return element.closest('article, aside, main, nav, section') ? null : 'banner';
+    case 'hr':
+      return 'separator';
+    case 'img':
+      return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+    case 'input':
+      return getInputRole(element);
+    case 'li':
+      return 'listitem';
+    case 'main':
+      return 'main';
+    case 'math':
+      return 'math';
+    case 'menu':
+    case 'ol':
+    case 'ul':
+      return 'list';
+    case 'meter':
+      return 'meter';
+    case 'nav':
+      return 'navigation';
+    case 'option':
+      return 'option';
+    case 'output':
+      return 'status';
+    case 'progress':
+      return 'progressbar';
+    case 'section':
+      return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : null;
+    case 'select':
+      return element.hasAttribute('multiple') || Number(element.getAttribute('size')) > 1 ? 'listbox' : 'combobox';
+    case 'table':
+      return 'table';
+    case 'tbody':
+    case 'tfoot':
+    case 'thead':
+      return 'rowgroup';
+    case 'td':
+      return 'cell';
+    case 'textarea':
+      return 'textbox';
+    case 'th':
+      return element.getAttribute('scope') === 'row' ? 'rowheader' : 'columnheader';
+    case 'tr':
+      return 'row';
+    default:
+      return null;
+  }
+}
+
+function getInputRole(element: Element): string | null {
+  const type = (element.getAttribute('type') || 'text').toLowerCase();
+
+  if (['button', 'image', 'reset', 'submit'].includes(type)) return 'button';
+  if (type === 'checkbox') return 'checkbox';
+  if (type === 'radio') return 'radio';
+  if (type === 'range') return 'slider';
+  if (type === 'number') return 'spinbutton';
+  if (type === 'search') return element.hasAttribute('list') ? 'combobox' : 'searchbox';
+  if (TEXTBOX_INPUT_TYPES.includes(type)) return element.hasAttribute('list') ? 'combobox' : 'textbox';
+
+  return null;
+}
+
+/**
+ * Get the explicit role of an element, if any.
+ * The role attribute is a fallback list, so the first known concrete role wins.
+ */
+export function getExplicitRole(element: Element): string | null {
+  const tokens = (element.getAttribute('role') || '').trim().toLowerCase().split(/\s+/);
+  return tokens.find(token => ARIA_ROLES[token] && !ARIA_ROLES[token].abstract) || null;
+}
+
+/**
+ * Get the effective role of an element: the explicit role if set, otherwise the implicit role
+ */
+export function getRole(element: Element): string | null {
+  return getExplicitRole(element) || getImplicitRole(element);
+}
+
+/**
+ * Check if an attribute value matches the value type of an ARIA state or property
+ */
+export function isValidAriaValue(definition: AttributeDefinition, value: string): boolean {
+  const normalized = value.trim().toLowerCase();
+
+  switch (definition.type) {
+    case 'true/false':
+      return normalized === 'true' || normalized === 'false';
+    case 'true/false/undefined':
+      return ['true', 'false', 'undefined'].includes(normalized);
+    case 'tristate':
+      return ['true', 'false', 'mixed', 'undefined'].includes(normalized);
+    case 'idref':
+      return normalized !== '' && !/\s/.test(normalized);
+    case 'idrefs':
+    case 'string':
+      return true;
+    case 'integer':
+      return /^-?\d+$/.test(normalized);
+    case 'number':
+      return /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/.test(normalized);
+    case 'token':
+      return (definition.values || []).includes(normalized);
+    case 'tokens':
+      return normalized.split(/\s+/).every(token => (definition.values || []).includes(token));
+  }
+}
+
+/**
+ * Check if an ARIA attribute may be used on an element with the given role
+ */
+export function isAttributeSupported(attribute: string, role: string): boolean {
+  const definition = ARIA_ATTRIBUTES[attribute];
+  if (!definition) return false;
+
+  if (ARIA_ROLES[role]?.prohibitedAttributes?.includes(attribute)) return false;
+
+  return !definition.roles || definition.roles.includes(role);
+}
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { runAudit } from '../engine';
+import { Violation } from '../types';
+
+const PAGE = `
+  <main>
+    <h1>Checkout</h1>
+    <img src="IMG_0042.jpg" alt="IMG_0042.jpg">
+    <a href="/terms">click here</a>
+    <div role="slider" aria-valuenow="high" aria-valuemin="0" aria-valuemax="10" aria-label="Volume" tabindex="0"></div>
+    <label for="missing-input">Email</label>
+    <input type="checkbox" aria-checked="maybe" aria-label="Subscribe">
+  </main>
+`;
+
+function fingerprintsByCheck(violations: Violation[]): Record<string, string | undefined> {
+  return Object.fromEntries(violations.map(violation => [`${violation.ruleId}:${violation.id.replace(/-\d+$/, '')}`, violation.fingerprint]));
+}
+
+describe('violation fingerprints', () => {
+  beforeEach(() => {
+    document.body.innerHTML = PAGE;
+  });
+
+  it('are the same when the page is scanned again', () => {
+    const first = runAudit(document);
+    const second = runAudit(document);
+
+    expect(first.violations.length).toBeGreaterThan(0);
+    expect(second.violations.map(v => v.fingerprint)).toEqual(first.violations.map(v => v.fingerprint));
+  });
+
+  it('are unique within a scan', () => {
+    const fingerprints = runAudit(document).violations.map(v => v.fingerprint);
+
+    expect(fingerprints.every(Boolean)).toBe(true);
+    expect(new Set(fingerprints).size).toBe(fingerprints.length);
+  });
+
+  it('survive unrelated markup inserted above the element', () => {
+    const before = runAudit(document).violations;
+    expect(before.some(v => v.id.startsWith('aria-attr-value-aria-valuenow-'))).toBe(true);
+
+    document.querySelector('main')!.insertAdjacentHTML('afterbegin', '<p>Free shipping on all orders</p><p>Sale</p>');
+    const after = runAudit(document).violations;
+
+    // Violation IDs carry element indexes, which the insertion shifts
+    expect(after.map(v => v.id)).not.toEqual(before.map(v => v.id));
+    expect(fingerprintsByCheck(after)).toEqual(fingerprintsByCheck(before));
+  });
+
+  it('change when the element itself changes', () => {
+    const find = (violations: Violation[]) => violations.find(v => v.id.startsWith('aria-attr-value-aria-valuenow-'));
+    const before = find(runAudit(document).violations);
+
+    document.querySelector('[role="slider"]')!.setAttribute('aria-label', 'Balance');
+    const after = find(runAudit(document).violations);
+
+    expect(after?.fingerprint).toBeDefined();
+    expect(after?.fingerprint).not.toBe(before?.fingerprint);
+  });
+});
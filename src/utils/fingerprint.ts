@@ -0,0 +1,122 @@
+/**
+ * Stable violation fingerprints
+ * Identify the same issue across reloads and re-scans, independent of violation IDs
+ * (built from loop indexes) and selectors (built from element positions)
+ */
+
+import { Violation } from '../types';
+import { getComposedParent } from './index';
+import { findElement } from './registry';
+
+/**
+ * Attributes that describe what an element is, rather than how it is styled or where it sits
+ */
+const KEY_ATTRIBUTES = [
+  'id', 'name', 'type', 'role', 'href', 'src', 'alt', 'for', 'title', 'placeholder',
+  'aria-label', 'aria-labelledby', 'aria-describedby', 'tabindex',
+];
+
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Compute fingerprints for the violations of one document, resolving their elements from the root.
+ * Issues that would otherwise share a fingerprint are told apart by their order of occurrence.
+ */
+export function assignFingerprints(violations: Violation[], root: Element | Document): Violation[] {
+  const ownerDocument = root.ownerDocument || (root as Document);
+  const occurrences = new Map<string, number>();
+
+  return violations.map(violation => {
+    const element = findElement(ownerDocument, violation.element, violation.elementRef);
+    const base = computeFingerprint(violation, element);
+
+    const occurrence = (occurrences.get(base) || 0) + 1;
+    occurrences.set(base, occurrence);
+
+    return { ...violation, fingerprint: occurrence === 1 ? base : hashString(`${base}|${occurrence}`) };
+  });
+}
+
+/**
+ * Compute the fingerprint of a single violation
+ */
+export function computeFingerprint(violation: Violation, element: Element | null): string {
+  const parts = [violation.ruleId, getSubCheck(violation)];
+
+  if (element) {
+    parts.push(getStructuralPath(element), getKeyAttributes(element), getKeyText(element));
+  } else {
+    // The element is gone (or the violation is about the page), so fall back to the snippet,
+    // ignoring the data-violation marks older versions stamped on the page
+    parts.push(violation.htmlSnippet.replace(/\s*data-violation="[^"]*"/g, ''));
+  }
+
+  return hashString(parts.join('|'));
+}
+
+/**
+ * Scope a fingerprint to the frame the violation was found in
+ */
+export function scopeFingerprint(fingerprint: string, framePath: string[]): string {
+  if (framePath.length === 0) return fingerprint;
+  return hashString([...framePath.map(stripHash), fingerprint].join('|'));
+}
+
+/**
+ * The sub-check a violation came from, e.g. "image-alt-filename" for "image-alt-filename-3"
+ */
+function getSubCheck(violation: Violation): string {
+  return violation.id.replace(/(-\d+)+$/, '');
+}
+
+/**
+ * Tag names from the document root to the element, crossing shadow boundaries.
+ * Sibling indexes are left out so unrelated insertions don't change the path.
+ */
+function getStructuralPath(element: Element): string {
+  const path: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    path.unshift(current.parentNode instanceof ShadowRoot ? `${current.tagName.toLowerCase()}/shadow` : current.tagName.toLowerCase());
+    current = getComposedParent(current);
+  }
+
+  return path.join('>');
+}
+
+function getKeyAttributes(element: Element): string {
+  return KEY_ATTRIBUTES
+    .filter(attribute => element.hasAttribute(attribute))
+    .map(attribute => `${attribute}=${(element.getAttribute(attribute) || '').trim()}`)
+    .join(';');
+}
+
+function getKeyText(element: Element): string {
+  // The whole page's text would change with any edit
+  if (element === element.ownerDocument.body || element === element.ownerDocument.documentElement) return '';
+  return (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH);
+}
+
+function stripHash(url: string): string {
+  const hashIndex = url.indexOf('#');
+  return hashIndex === -1 ? url : url.slice(0, hashIndex);
+}
+
+/**
+ * 64-bit hex hash made of two 32-bit FNV-1a passes with different offset bases
+ */
+function hashString(input: string): string {
+  return fnv1a(input, 0x811c9dc5) + fnv1a(input, 0x01000193 ^ 0x9e3779b9);
+}
+
+function fnv1a(input: string, offsetBasis: number): string {
+  let hash = offsetBasis >>> 0;
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash.toString(16).padStart(8, '0');
+}
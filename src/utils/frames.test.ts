@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ScanResult, Severity, Violation, WCAGLevel, WCAGPrinciple } from '../types';
+import { summarizeViolations } from './index';
+import { FrameDetails, getFramePath, mergeFrameResults } from './frames';
+
+const FRAMES: FrameDetails[] = [
+  { frameId: 0, parentFrameId: -1, url: 'https://shop.example/checkout' },
+  { frameId: 3, parentFrameId: 0, url: 'https://pay.example/form' },
+  { frameId: 7, parentFrameId: 3, url: 'https://pay.example/form/card#number' },
+];
+
+function violation(id: string, severity = Severity.SERIOUS): Violation {
+  return {
+    id,
+    ruleId: 'form-labels',
+    principle: WCAGPrinciple.UNDERSTANDABLE,
+    wcagCriteria: '3.3.2',
+    level: WCAGLevel.A,
+    severity,
+    message: 'Form field has no label',
+    description: 'Form field has no label',
+    element: 'input',
+    htmlSnippet: '<input>',
+    fingerprint: 'abc123',
+  };
+}
+
+function result(url: string, violations: Violation[]): ScanResult {
+  return { url, timestamp: 0, violations, summary: summarizeViolations(violations) };
+}
+
+describe('getFramePath', () => {
+  it('lists frame URLs from the top document down', () => {
+    expect(getFramePath(7, FRAMES)).toEqual(['https://pay.example/form', 'https://pay.example/form/card#number']);
+    expect(getFramePath(0, FRAMES)).toEqual([]);
+  });
+});
+
+describe('mergeFrameResults', () => {
+  it('keeps the top document first and tags frame violations with their frame', () => {
+    const merged = mergeFrameResults('https://shop.example/checkout', [
+      { frameId: 7, result: result('https://pay.example/form/card', [violation('form-label-0', Severity.CRITICAL)]) },
+      { frameId: 0, result: result('https://shop.example/checkout', [violation('form-label-0')]) },
+    ], FRAMES);
+
+    expect(merged.url).toBe('https://shop.example/checkout');
+    expect(merged.violations.map(v => v.id)).toEqual(['form-label-0', 'frame-7-form-label-0']);
+    expect(merged.violations[0].framePath).toBeUndefined();
+    expect(merged.violations[1]).toMatchObject({ frameId: 7, framePath: getFramePath(7, FRAMES) });
+    expect(merged.summary).toMatchObject({ total: 2, critical: 1, serious: 1 });
+  });
+
+  it('scopes fingerprints to the frame, so the same issue in two frames stays distinct', () => {
+    const merged = mergeFrameResults('https://shop.example/checkout', [
+      { frameId: 0, result: result('https://shop.example/checkout', [violation('form-label-0')]) },
+      { frameId: 3, result: result('https://pay.example/form', [violation('form-label-0')]) },
+      { frameId: 7, result: result('https://pay.example/form/card', [violation('form-label-0')]) },
+    ], FRAMES);
+
+    const fingerprints = merged.violations.map(v => v.fingerprint);
+    expect(fingerprints[0]).toBe('abc123');
+    expect(new Set(fingerprints).size).toBe(3);
+  });
+});
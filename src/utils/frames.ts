@@ -0,0 +1,66 @@
+/**
+ * Frame helpers
+ * Combines the results scanned in each frame of a tab into one result for the whole page
+ */
+
+import { ScanResult, Violation } from '../types';
+import { summarizeViolations } from './index';
+import { scopeFingerprint } from './fingerprint';
+
+/**
+ * The parts of chrome.webNavigation frame details used to place a frame in the page
+ */
+export type FrameDetails = Pick<chrome.webNavigation.GetAllFrameResultDetails, 'frameId' | 'parentFrameId' | 'url'>;
+
+/**
+ * Merge per-frame scan results, tagging each violation with the frame it came from
+ */
+export function mergeFrameResults(
+  url: string,
+  frameResults: { frameId: number; result: ScanResult }[],
+  frames: FrameDetails[]
+): ScanResult {
+  const violations: Violation[] = [];
+
+  // Keep the top document first, then frames by frame ID
+  const ordered = [...frameResults].sort((a, b) => a.frameId - b.frameId);
+
+  ordered.forEach(({ frameId, result }) => {
+    if (frameId === 0) {
+      violations.push(...result.violations);
+      return;
+    }
+
+    const framePath = getFramePath(frameId, frames);
+    violations.push(...result.violations.map(violation => ({
+      ...violation,
+      id: `frame-${frameId}-${violation.id}`,
+      frameId,
+      framePath,
+      fingerprint: violation.fingerprint && scopeFingerprint(violation.fingerprint, framePath),
+    })));
+  });
+
+  return {
+    url,
+    timestamp: Date.now(),
+    violations,
+    summary: summarizeViolations(violations),
+  };
+}
+
+/**
+ * Build the list of frame URLs leading from the top document down to a frame
+ */
+export function getFramePath(frameId: number, frames: FrameDetails[]): string[] {
+  const path: string[] = [];
+  let current = frames.find(frame => frame.frameId === frameId);
+
+  while (current && current.frameId !== 0) {
+    path.unshift(current.url);
+    const parentFrameId = current.parentFrameId;
+    current = frames.find(frame => frame.frameId === parentFrameId);
+  }
+
+  return path;
+}
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { runAudit } from '../engine';
+import { ScanResult } from '../types';
+import { HISTORY_URL_LIMIT, addToHistory, diffScans, getHistoryKey, toHistoryEntry } from './history';
+import { summarizeViolations } from './index';
+
+function scan(url: string, timestamp: number, message: string = 'Link has vague text'): ScanResult {
+  const violations = runAudit(document, { include: ['link-purpose'] }).violations.map(violation => ({ ...violation, message }));
+  return { url, timestamp, violations, summary: summarizeViolations(violations) };
+}
+
+describe('addToHistory', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<main><a href="/terms">click here</a></main>';
+  });
+
+  it('groups scans by URL without the fragment and keeps only what the history needs', () => {
+    const history = addToHistory(addToHistory({}, scan('https://example.com/#top', 1)), scan('https://example.com/', 2));
+
+    expect(Object.keys(history)).toEqual([getHistoryKey('https://example.com/')]);
+    expect(history['https://example.com/'].map(entry => entry.timestamp)).toEqual([1, 2]);
+    expect(Object.keys(history['https://example.com/'][0].violations[0]).sort())
+      .toEqual(['fingerprint', 'message', 'ruleId', 'severity', 'wcagCriteria']);
+  });
+
+  it('drops the oldest scans beyond the limit', () => {
+    let history = {};
+    for (let timestamp = 1; timestamp <= 5; timestamp++) {
+      history = addToHistory(history, scan('https://example.com/', timestamp), 3);
+    }
+
+    expect(addToHistory(history, scan('https://example.com/', 6), 3)['https://example.com/'].map(entry => entry.timestamp))
+      .toEqual([4, 5, 6]);
+  });
+
+  it('drops the least recently scanned URLs beyond the URL limit', () => {
+    let history = {};
+    for (let index = 0; index <= HISTORY_URL_LIMIT; index++) {
+      history = addToHistory(history, scan(`https://example.com/${index}`, index));
+    }
+
+    expect(Object.keys(history)).toHaveLength(HISTORY_URL_LIMIT);
+    expect(history).not.toHaveProperty('https://example.com/0');
+  });
+
+  it('drops the oldest scans of any URL to fit the size limit, but always keeps the new one', () => {
+    const older = addToHistory(addToHistory({}, scan('https://example.com/a', 1)), scan('https://example.com/b', 2));
+    const entrySize = JSON.stringify(toHistoryEntry(scan('https://example.com/b', 2))).length;
+
+    expect(Object.keys(addToHistory(older, scan('https://example.com/c', 3), 20, entrySize * 2))).toEqual(['https://example.com/b', 'https://example.com/c']);
+    expect(Object.keys(addToHistory(older, scan('https://example.com/c', 3), 20, 0))).toEqual(['https://example.com/c']);
+  });
+});
+
+describe('diffScans', () => {
+  it('matches issues by fingerprint, even when their messages change', () => {
+    document.body.innerHTML = '<main><a href="/terms">click here</a><a href="/privacy">read more</a></main>';
+    const older = toHistoryEntry(scan('https://example.com/', 1, 'Old wording'));
+
+    document.body.innerHTML = '<main><p>Intro</p><a href="/terms">click here</a><a href="/faq">more</a></main>';
+    const diff = diffScans(older, toHistoryEntry(scan('https://example.com/', 2)));
+
+    const [terms, privacy] = older.violations;
+
+    expect(diff.unchanged.map(violation => [violation.fingerprint, violation.message])).toEqual([[terms.fingerprint, 'Link has vague text']]);
+    expect(diff.fixed).toEqual([privacy]);
+    expect(diff.introduced).toHaveLength(1);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Scan history helpers
+ * Keeps a bounded list of scans per URL and compares two scans of the same page
+ */
+
+import { ScanResult, ScanSummary, Violation } from '../types';
+
+/**
+ * Maximum number of scans kept per URL
+ */
+export const HISTORY_LIMIT = 20;
+
+/**
+ * Maximum number of URLs with history
+ */
+export const HISTORY_URL_LIMIT = 50;
+
+/**
+ * Maximum size of the stored history (as JSON), well inside the 10 MB chrome.storage.local quota
+ * it shares with the latest scan, suppressions and settings. The oldest scans are dropped first.
+ */
+export const HISTORY_SIZE_LIMIT = 4 * 1024 * 1024;
+
+/**
+ * What the history keeps of a violation: enough to match it across scans and list it in a comparison.
+ * Scans saved by older versions hold full violations, which have these fields too.
+ */
+export type HistoryViolation = Pick<Violation, 'ruleId' | 'severity' | 'message' | 'wcagCriteria' | 'fingerprint'>;
+
+/**
+ * A scan as recorded in the history
+ */
+export interface HistoryEntry {
+  url: string;
+  timestamp: number;
+  violations: HistoryViolation[];
+  summary: ScanSummary;
+}
+
+/**
+ * Scans grouped by URL, oldest first
+ */
+export type ScanHistory = Record<string, HistoryEntry[]>;
+
+/**
+ * Violations grouped by how they changed between two scans
+ */
+export interface ScanDiff {
+  introduced: HistoryViolation[]; // Only in the newer scan
+  fixed: HistoryViolation[]; // Only in the older scan
+  unchanged: HistoryViolation[]; // In both scans (as found by the newer scan)
+}
+
+/**
+ * Session storage key for the latest scan of a tab, shown when the popup or side panel opens on it
+ */
+export function getTabScanKey(tabId: number): string {
+  return `tabScan-${tabId}`;
+}
+
+/**
+ * Get the history key for a URL; the fragment doesn't change what is scanned
+ */
+export function getHistoryKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch (e) {
+    return url;
+  }
+}
+
+/**
+ * Trim a scan down to what the history keeps, leaving out snippets, selectors and descriptions
+ */
+export function toHistoryEntry(result: ScanResult): HistoryEntry {
+  return {
+    url: result.url,
+    timestamp: result.timestamp,
+    violations: result.violations.map(({ ruleId, severity, message, wcagCriteria, fingerprint }) =>
+      ({ ruleId, severity, message, wcagCriteria, fingerprint })
+    ),
+    summary: result.summary,
+  };
+}
+
+/**
+ * Append a scan to its URL's history, dropping the oldest scans beyond the limit,
+ * the least recently scanned URLs beyond HISTORY_URL_LIMIT, and then the oldest scans
+ * of any URL until the history fits in sizeLimit (the new scan is always kept)
+ */
+export function addToHistory(
+  history: ScanHistory,
+  result: ScanResult,
+  limit: number = HISTORY_LIMIT,
+  sizeLimit: number = HISTORY_SIZE_LIMIT
+): ScanHistory {
+  const key = getHistoryKey(result.url);
+  const entry = toHistoryEntry(result);
+  const updated = { ...history, [key]: [...(history[key] || []), entry].slice(-limit) };
+
+  const lastScanned = (url: string) => updated[url][updated[url].length - 1]?.timestamp || 0;
+  Object.keys(updated)
+    .sort((a, b) => lastScanned(b) - lastScanned(a))
+    .slice(HISTORY_URL_LIMIT)
+    .forEach(url => delete updated[url]);
+
+  const oldestFirst = Object.entries(updated)
+    .flatMap(([url, scans]) => scans.map(scan => ({ url, scan, size: JSON.stringify(scan).length })))
+    .sort((a, b) => a.scan.timestamp - b.scan.timestamp);
+  let size = oldestFirst.reduce((total, { size: scanSize }) => total + scanSize, 0);
+
+  for (const { url, scan, size: scanSize } of oldestFirst) {
+    if (size <= sizeLimit) break;
+    if (scan === entry) continue;
+
+    updated[url] = updated[url].filter(kept => kept !== scan);
+    if (updated[url].length === 0) delete updated[url];
+    size -= scanSize;
+  }
+
+  return updated;
+}
+
+/**
+ * Compare two scans of the same page
+ */
+export function diffScans(older: HistoryEntry, newer: HistoryEntry): ScanDiff {
+  // Violation IDs and selectors contain indexes and element positions, so the same issue is matched by fingerprint.
+  // Older violations are grouped so repeated fingerprints are matched one to one.
+  const remaining = new Map<string | undefined, HistoryViolation[]>();
+  older.violations.forEach(violation => {
+    remaining.set(violation.fingerprint, [...(remaining.get(violation.fingerprint) || []), violation]);
+  });
+
+  const introduced: HistoryViolation[] = [];
+  const unchanged: HistoryViolation[] = [];
+
+  newer.violations.forEach(violation => {
+    const matches = remaining.get(violation.fingerprint);
+    if (matches && matches.length > 0) {
+      matches.shift();
+      unchanged.push(violation);
+    } else {
+      introduced.push(violation);
+    }
+  });
+
+  const fixed = Array.from(remaining.values()).flat();
+
+  return { introduced, fixed, unchanged };
+}
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { runAudit } from '../engine';
+import { getComposedParent, getElementSelector, getElementXPath, isRestrictedFrameUrl, querySelectorAllDeep, querySelectorDeep } from './index';
+
+describe('deep queries', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<main><my-card id="card"><img id="light"></my-card><closed-card></closed-card></main>';
+
+    const card = document.getElementById('card')!;
+    card.attachShadow({ mode: 'open' }).innerHTML = '<img id="shadow"><my-icon id="icon"></my-icon><slot></slot>';
+    card.shadowRoot!.getElementById('icon')!.attachShadow({ mode: 'open' }).innerHTML = '<img id="nested">';
+    document.querySelector('closed-card')!.attachShadow({ mode: 'closed' }).innerHTML = '<img id="closed">';
+  });
+
+  it('find elements in open shadow roots, with shadow content right after its host', () => {
+    expect(querySelectorAllDeep(document, 'img').map(img => img.id)).toEqual(['shadow', 'nested', 'light']);
+  });
+
+  it('search shadow roots when the light DOM has no match', () => {
+    expect(querySelectorDeep(document, '#nested')?.id).toBe('nested');
+    expect(querySelectorDeep(document, '#closed')).toBeNull();
+  });
+
+  it('walk from shadow content up to its host', () => {
+    const nested = querySelectorDeep(document, '#nested')!;
+
+    expect(getComposedParent(nested)?.id).toBe('icon');
+    expect(getComposedParent(getComposedParent(nested)!)?.id).toBe('card');
+  });
+});
+
+describe("the extension's own UI", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <main><a href="/terms">click here</a></main>
+      <div id="all-inclusive-navigator" role="toolbar">
+        <button></button>
+        <a href="#">click here</a>
+      </div>
+      <div id="all-inclusive-annotations"><span role="tooltip" aria-checked="maybe"></span></div>
+    `;
+  });
+
+  it('is left out of deep queries', () => {
+    expect(querySelectorAllDeep(document, 'a').map(link => link.getAttribute('href'))).toEqual(['/terms']);
+    expect(querySelectorDeep(document, 'a')?.getAttribute('href')).toBe('/terms');
+    expect(querySelectorDeep(document, 'button')).toBeNull();
+    expect(querySelectorAllDeep(document.getElementById('all-inclusive-navigator')!, '*')).toEqual([]);
+  });
+
+  it('is not reported by scans', () => {
+    const violations = runAudit(document).violations;
+
+    expect(violations.length).toBeGreaterThan(0);
+    expect(violations.filter(violation => document.querySelector(violation.element)?.closest('[id^="all-inclusive-"]'))).toEqual([]);
+  });
+});
+
+describe('isRestrictedFrameUrl', () => {
+  it('lets about:blank and about:srcdoc frames be scanned', () => {
+    expect(isRestrictedFrameUrl('about:blank')).toBe(false);
+    expect(isRestrictedFrameUrl('about:srcdoc')).toBe(false);
+    expect(isRestrictedFrameUrl('about:blank#top')).toBe(false);
+  });
+
+  it('still skips frames extensions cannot access', () => {
+    expect(isRestrictedFrameUrl('about:blankness')).toBe(true);
+    expect(isRestrictedFrameUrl('chrome-extension://abc/page.html')).toBe(true);
+    expect(isRestrictedFrameUrl('https://chrome.google.com/webstore/detail/x')).toBe(true);
+    expect(isRestrictedFrameUrl('https://example.com/embed')).toBe(false);
+  });
+});
+
+describe('getElementSelector', () => {
+  // The selector must match only the element within its tree, and resolve back to it from the document
+  const expectUnique = (element: Element) => {
+    const selector = getElementSelector(element);
+    const tree = element.getRootNode() as Document | ShadowRoot;
+    expect(Array.from(tree.querySelectorAll(selector.split(' >>> ').pop()!))).toEqual([element]);
+    expect(querySelectorDeep(document, selector)).toBe(element);
+    return selector;
+  };
+
+  it("doesn't anchor on duplicated IDs", () => {
+    document.body.innerHTML = '<div id="dup"><span>a</span></div><div id="dup"><span>b</span></div>';
+    const second = document.querySelectorAll('span')[1];
+
+    const selector = expectUnique(second);
+    expect(selector).not.toContain('#dup');
+  });
+
+  it('tells apart elements that share the same class chain', () => {
+    document.body.innerHTML = `
+      <ul class="menu"><li class="item"><a class="link" href="#">Home</a></li></ul>
+      <ul class="menu"><li class="item"><a class="link" href="#">Home</a></li></ul>
+    `;
+    const second = document.querySelectorAll('a')[1];
+
+    const selector = expectUnique(second);
+    expect(selector).not.toContain('.');
+  });
+
+  it('keeps walking up past four levels until the path is unique', () => {
+    const branch = '<div><div><div><div><div><span></span></div></div></div></div></div>';
+    document.body.innerHTML = `<section>${branch}</section><section>${branch}</section>`;
+    const last = document.querySelectorAll('span')[1];
+
+    const selector = expectUnique(last);
+    expect(selector.split(' > ').length).toBeGreaterThan(4);
+  });
+
+  it('joins shadow hosts and shadow content with >>>', () => {
+    document.body.innerHTML = '<my-card></my-card><my-card></my-card>';
+    const card = document.querySelectorAll('my-card')[1];
+    card.attachShadow({ mode: 'open' }).innerHTML = '<my-icon></my-icon>';
+    const icon = card.shadowRoot!.querySelector('my-icon')!;
+    icon.attachShadow({ mode: 'open' }).innerHTML = '<button>a</button><button>b</button>';
+    const button = icon.shadowRoot!.querySelectorAll('button')[1];
+
+    expect(expectUnique(button)).toBe('my-card:nth-of-type(2) >>> my-icon >>> button:nth-of-type(2)');
+  });
+});
+
+describe('getElementXPath', () => {
+  const evaluate = (xpath: string) =>
+    document.evaluate(xpath, document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+
+  const expectUnique = (element: Element) => {
+    const xpath = getElementXPath(element)!;
+    const result = evaluate(xpath);
+    expect(result.snapshotLength).toBe(1);
+    expect(result.snapshotItem(0)).toBe(element);
+    return xpath;
+  };
+
+  it('starts from the nearest unique ID', () => {
+    document.body.innerHTML = '<main id="content"><ul><li>a</li><li><a href="#">b</a></li></ul></main>';
+
+    expect(expectUnique(document.querySelector('a')!)).toBe('//*[@id="content"]/ul/li[2]/a');
+  });
+
+  it("doesn't anchor on duplicated IDs", () => {
+    document.body.innerHTML = '<div id="dup"><span>a</span></div><div id="dup"><span>b</span></div>';
+
+    expect(expectUnique(document.querySelectorAll('span')[1])).toBe('/html/body/div[2]/span');
+  });
+
+  it('builds the full path for deeply nested elements', () => {
+    const branch = '<div><div><div><div><div><span></span></div></div></div></div></div>';
+    document.body.innerHTML = `<section>${branch}</section><section>${branch}</section>`;
+
+    expect(expectUnique(document.querySelectorAll('span')[1])).toBe('/html/body/section[2]/div/div/div/div/div/span');
+  });
+
+  it('has no XPath for shadow content', () => {
+    document.body.innerHTML = '<my-card></my-card>';
+    const card = document.querySelector('my-card')!;
+    card.attachShadow({ mode: 'open' }).innerHTML = '<button>a</button>';
+
+    expect(getElementXPath(card.shadowRoot!.querySelector('button')!)).toBeUndefined();
+  });
+});
@@ -2,46 +2,227 @@
  * Utility functions for the All-Inclusive extension
  */
 
+import { ScanSummary, Severity, Violation, WCAGPrinciple } from '../types';
+
+/**
+ * Separates a shadow host's selector from the selector inside its shadow root
+ */
+export const SHADOW_SELECTOR_SEPARATOR = ' >>> ';
+
+/**
+ * Matches the root of any UI the extension injects into pages (annotations, navigator, spotlight)
+ */
+export const EXTENSION_UI_SELECTOR = '[id^="all-inclusive-"]';
+
+// Attributes that usually identify an element, tried in order when it has no unique ID
+const ANCHOR_ATTRIBUTES = ['data-testid', 'data-test', 'data-cy', 'name', 'for', 'aria-label', 'href', 'src', 'alt', 'title', 'placeholder'];
+
+const MAX_ANCHOR_VALUE_LENGTH = 100;
+
 /**
- * Get a CSS selector for an element
+ * Get a unique CSS selector for an element, checked with querySelectorAll at every step.
+ * Starts from the element and walks up, using an ID or identifying attribute that is unique in the tree
+ * when there is one, and otherwise tag names with :nth-of-type positions until the path matches only the element.
+ * Classes are left out, since they often change with state such as hover or open menus.
+ * Elements inside open shadow roots get the host's selector, then " >>> ", then the selector within the shadow root.
  */
 export function getElementSelector(element: Element): string {
+  const treeRoot = element.getRootNode();
+  const scope = treeRoot === element.ownerDocument || treeRoot instanceof ShadowRoot ? treeRoot as Document | ShadowRoot : null;
+  const path: string[] = [];
+  let current: Element | null = element;
+  
+  while (current) {
+    const anchor = scope && getAnchorSelector(current, scope);
+    if (anchor) {
+      path.unshift(anchor);
+      break;
+    }
+    
+    path.unshift(getPositionSelector(current));
+    if (scope && matchesOnly(scope, path.join(' > '), element)) break;
+    
+    current = current.parentElement;
+  }
+  
+  const selector = path.join(' > ');
+  return scope instanceof ShadowRoot ? `${getElementSelector(scope.host)}${SHADOW_SELECTOR_SEPARATOR}${selector}` : selector;
+}
+
+/**
+ * Get a selector that matches only this element in its tree, from its ID or an identifying attribute
+ */
+function getAnchorSelector(element: Element, scope: Document | ShadowRoot): string | null {
   if (element.id) {
-    return `#${element.id}`;
+    // IDs that aren't plain identifiers (e.g. starting with a digit) are safer as attribute selectors
+    const idSelector = /^[a-zA-Z_][\w-]*$/.test(element.id) ? `#${element.id}` : `[id="${escapeAttributeValue(element.id)}"]`;
+    if (matchesOnly(scope, idSelector, element)) return idSelector;
   }
   
-  // Generate a unique selector using nth-child
-  const path: string[] = [];
+  const tagName = element.tagName.toLowerCase();
+  for (const attribute of ANCHOR_ATTRIBUTES) {
+    const value = element.getAttribute(attribute);
+    if (!value || value.length > MAX_ANCHOR_VALUE_LENGTH || value.includes(SHADOW_SELECTOR_SEPARATOR.trim())) continue;
+    
+    const attributeSelector = `${tagName}[${attribute}="${escapeAttributeValue(value)}"]`;
+    if (matchesOnly(scope, attributeSelector, element)) return attributeSelector;
+  }
+  
+  return null;
+}
+
+/**
+ * Get the tag name of an element, with its position among siblings of the same tag when it has any
+ */
+function getPositionSelector(element: Element): string {
+  const tagName = element.tagName.toLowerCase();
+  const parent = element.parentElement || (element.parentNode instanceof ShadowRoot ? element.parentNode : null);
+  if (!parent) return tagName;
+  
+  const sameTagSiblings = Array.from(parent.children).filter(sibling => sibling.tagName === element.tagName);
+  return sameTagSiblings.length > 1 ? `${tagName}:nth-of-type(${sameTagSiblings.indexOf(element) + 1})` : tagName;
+}
+
+/**
+ * Check if a selector matches exactly one element in a tree, and that it is the given element
+ */
+function matchesOnly(scope: Document | ShadowRoot, selector: string, element: Element): boolean {
+  try {
+    const matches = scope.querySelectorAll(selector);
+    return matches.length === 1 && matches[0] === element;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Escape a string for use inside a double-quoted CSS attribute value
+ */
+function escapeAttributeValue(value: string): string {
+  return value.replace(/["\\]/g, character => `\\${character}`).replace(/\n/g, '\\a ');
+}
+
+/**
+ * Get an XPath for an element, e.g. //*[@id="main"]/ul/li[3]/a.
+ * Starts from the nearest ancestor with a unique ID, or else from the document root.
+ * Returns undefined for elements inside shadow roots, which XPath cannot reach.
+ */
+export function getElementXPath(element: Element): string | undefined {
+  const ownerDocument = element.ownerDocument;
+  if (element.getRootNode() !== ownerDocument) return undefined;
+  
+  const steps: string[] = [];
   let current: Element | null = element;
   
-  while (current && current !== document.documentElement) {
-    let selector = current.tagName.toLowerCase();
-    
-    if (current.className && typeof current.className === 'string') {
-      const classes = current.className.trim().split(/\s+/).filter(c => c).join('.');
-      if (classes) {
-        selector += `.${classes}`;
-      }
+  while (current) {
+    const id = current.id;
+    if (id && !id.includes('"') && ownerDocument.querySelectorAll(`[id="${escapeAttributeValue(id)}"]`).length === 1) {
+      steps.unshift(`//*[@id="${id}"]`);
+      return steps.join('/');
     }
     
-    // Add nth-child if needed for uniqueness
+    // Name tests only match HTML elements by name; SVG and MathML need local-name()
+    const isHtml = current.namespaceURI === 'http://www.w3.org/1999/xhtml';
+    let step = isHtml ? current.localName : `*[local-name()="${current.localName}"]`;
+    
     if (current.parentElement) {
-      const siblings = Array.from(current.parentElement.children);
-      const sameTagSiblings = siblings.filter(s => s.tagName === current!.tagName);
-      if (sameTagSiblings.length > 1) {
-        const index = sameTagSiblings.indexOf(current) + 1;
-        selector += `:nth-of-type(${index})`;
+      const sameNameSiblings = Array.from(current.parentElement.children).filter(sibling =>
+        sibling.localName === current!.localName && sibling.namespaceURI === current!.namespaceURI
+      );
+      if (sameNameSiblings.length > 1) {
+        step += `[${sameNameSiblings.indexOf(current) + 1}]`;
       }
     }
     
-    path.unshift(selector);
+    steps.unshift(step);
     current = current.parentElement;
-    
-    // Stop if we have enough specificity (max 4 levels)
-    if (path.length >= 4) break;
   }
   
-  return path.join(' > ');
+  return `/${steps.join('/')}`;
+}
+
+/**
+ * Query all elements matching a selector, descending into open shadow roots.
+ * Results are in document order, except that a shadow host's shadow content comes right after the host,
+ * before the host's light-DOM children. This holds for the root too: when it is an element, it is
+ * included first if it matches, followed by its own shadow content, then its light-DOM descendants.
+ */
+export function querySelectorAllDeep(root: Element | Document | ShadowRoot, selector: string): Element[] {
+  const results: Element[] = [];
+
+  if (root instanceof Element && isExtensionElement(root)) {
+    return results;
+  }
+
+  const collect = (scope: Element | Document | ShadowRoot) => {
+    let extensionUi: Element | null = null;
+    scope.querySelectorAll('*').forEach(element => {
+      // The extension's own UI is skipped along with everything inside it
+      if (extensionUi?.contains(element)) {
+        return;
+      }
+      if (element.matches(EXTENSION_UI_SELECTOR)) {
+        extensionUi = element;
+        return;
+      }
+      if (element.matches(selector)) {
+        results.push(element);
+      }
+      if (element.shadowRoot) {
+        collect(element.shadowRoot);
+      }
+    });
+  };
+
+  if (root instanceof Element) {
+    if (root.matches(selector)) {
+      results.push(root);
+    }
+    if (root.shadowRoot) {
+      collect(root.shadowRoot);
+    }
+  }
+  collect(root);
+
+  return results;
+}
+
+/**
+ * Find the first element matching a selector, descending into open shadow roots.
+ * Selectors with " >>> " segments (see getElementSelector) are resolved one shadow root at a time.
+ */
+export function querySelectorDeep(root: Element | Document | ShadowRoot, selector: string): Element | null {
+  if (selector.includes(SHADOW_SELECTOR_SEPARATOR)) {
+    const [hostSelector, ...rest] = selector.split(SHADOW_SELECTOR_SEPARATOR);
+    const host = querySelectorDeep(root, hostSelector);
+    return host?.shadowRoot ? querySelectorDeep(host.shadowRoot, rest.join(SHADOW_SELECTOR_SEPARATOR)) : null;
+  }
+
+  const match = root.querySelector(selector);
+  return match && !isExtensionElement(match) ? match : querySelectorAllDeep(root, selector)[0] || null;
+}
+
+/**
+ * Check if an element is part of the UI the extension injects into pages
+ */
+export function isExtensionElement(element: Element): boolean {
+  return element.closest(EXTENSION_UI_SELECTOR) !== null;
+}
+
+/**
+ * Get the parent of an element in the composed tree, crossing shadow boundaries
+ */
+export function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) {
+    return element.parentElement;
+  }
+
+  const parentNode = element.parentNode;
+  if (parentNode instanceof ShadowRoot) {
+    return parentNode.host;
+  }
+
+  return null;
 }
 
 /**
@@ -59,6 +240,82 @@ export function getElementPath(element: Element): string {
   return path.join(' > ');
 }
 
+/**
+ * Calculate summary statistics for a list of violations
+ */
+export function summarizeViolations(violations: Violation[]): ScanSummary {
+  return {
+    total: violations.length,
+    critical: violations.filter(v => v.severity === Severity.CRITICAL).length,
+    serious: violations.filter(v => v.severity === Severity.SERIOUS).length,
+    moderate: violations.filter(v => v.severity === Severity.MODERATE).length,
+    minor: violations.filter(v => v.severity === Severity.MINOR).length,
+    byPrinciple: {
+      [WCAGPrinciple.PERCEIVABLE]: violations.filter(v => v.principle === WCAGPrinciple.PERCEIVABLE).length,
+      [WCAGPrinciple.OPERABLE]: violations.filter(v => v.principle === WCAGPrinciple.OPERABLE).length,
+      [WCAGPrinciple.UNDERSTANDABLE]: violations.filter(v => v.principle === WCAGPrinciple.UNDERSTANDABLE).length,
+      [WCAGPrinciple.ROBUST]: violations.filter(v => v.principle === WCAGPrinciple.ROBUST).length,
+    },
+  };
+}
+
+/**
+ * Severities from most to least severe
+ */
+export const SEVERITY_ORDER: Severity[] = [Severity.CRITICAL, Severity.SERIOUS, Severity.MODERATE, Severity.MINOR];
+
+/**
+ * Check if a severity is at or above a threshold (e.g. critical is at least serious)
+ */
+export function isAtLeastSeverity(severity: Severity, threshold: Severity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) <= SEVERITY_ORDER.indexOf(threshold);
+}
+
+/**
+ * Escape text for HTML content and quoted attribute values. Rules use it on text taken from the page
+ * (attribute values, IDs, text content) since messages are HTML and rendered as such in the popup
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * Decode the HTML entities the rules use in messages for display in the popup
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+}
+
+/**
+ * Compile a configured regular expression (case-insensitive), or return null if it doesn't parse
+ */
+export function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Check if URL is restricted (cannot inject content scripts)
+ */
+export function isRestrictedUrl(url: string): boolean {
+  const restrictedProtocols = ['chrome://', 'chrome-extension://', 'edge://', 'about:'];
+  const restrictedDomains = ['chrome.google.com/webstore'];
+  
+  return restrictedProtocols.some(protocol => url.startsWith(protocol)) ||
+         restrictedDomains.some(domain => url.includes(domain));
+}
+
+/**
+ * Check if a child frame's URL is restricted. Unlike a tab, an about:blank or about:srcdoc
+ * iframe holds inline content from its parent's origin, so it can be scanned.
+ */
+export function isRestrictedFrameUrl(url: string): boolean {
+  return !/^about:(blank|srcdoc)([?#]|$)/.test(url) && isRestrictedUrl(url);
+}
+
 /**
  * Convert RGB color to hex
  */
@@ -117,6 +374,15 @@ export function parseRgbColor(color: string): { r: number; g: number; b: number
   };
 }
 
+/**
+ * Check if the current DOM implementation computes layout.
+ * Headless DOMs such as jsdom report zero-sized boxes for every element,
+ * so size and position based heuristics must be skipped there.
+ */
+export function hasLayoutEngine(): boolean {
+  return typeof navigator === 'undefined' || !/jsdom/i.test(navigator.userAgent);
+}
+
 /**
  * Check if an element is visible
  */
@@ -129,6 +395,9 @@ export function isElementVisible(element: Element): boolean {
   if (style.visibility === 'hidden') return false;
   if (parseFloat(style.opacity) === 0) return false;
   
+  // Without layout every box is empty, so size can't tell us anything
+  if (!hasLayoutEngine()) return true;
+  
   const rect = element.getBoundingClientRect();
   if (rect.width === 0 || rect.height === 0) return false;
   
@@ -140,6 +409,11 @@ export function isElementVisible(element: Element): boolean {
  * Skips elements that are intentionally hidden from assistive technologies
  */
 export function shouldCheckElement(element: Element): boolean {
+  // Skip the extension's own annotations, navigator and spotlight
+  if (isExtensionElement(element)) {
+    return false;
+  }
+
   const role = element.getAttribute('role');
   const ariaHidden = element.getAttribute('aria-hidden');
   
@@ -153,8 +427,8 @@ export function shouldCheckElement(element: Element): boolean {
     return false;
   }
   
-  // Check if any parent element has aria-hidden="true"
-  let parent = element.parentElement;
+  // Check if any parent element has aria-hidden="true" (including shadow hosts)
+  let parent = getComposedParent(element);
   while (parent && parent !== document.body.parentElement) {
     if (parent.getAttribute('aria-hidden') === 'true') {
       return false;
@@ -166,7 +440,7 @@ export function shouldCheckElement(element: Element): boolean {
       return false;
     }
     
-    parent = parent.parentElement;
+    parent = getComposedParent(parent);
   }
   
   // Skip if not visible
@@ -176,28 +450,3 @@ export function shouldCheckElement(element: Element): boolean {
   
   return true;
 }
-
-/**
- * Check if element has an accessible name through aria-label or aria-labelledby
- */
-export function hasAccessibleName(element: Element): boolean {
-  const ariaLabel = element.getAttribute('aria-label');
-  const ariaLabelledby = element.getAttribute('aria-labelledby');
-  
-  if (ariaLabel || ariaLabelledby) {
-    return true;
-  }
-  
-  // Check if parent has aria-labelledby that might label this element
-  let parent = element.parentElement;
-  while (parent && parent !== document.body) {
-    const parentLabelledby = parent.getAttribute('aria-labelledby');
-    if (parentLabelledby) {
-      // Parent has a label, children might be labeled by context
-      return true;
-    }
-    parent = parent.parentElement;
-  }
-  
-  return false;
-}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { runAudit } from '../engine';
+import { findElement, registerElement, resolveElement } from './registry';
+
+describe('element registry', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<main><img src="a.png"><img src="b.png"></main>';
+  });
+
+  it('gives each element one token for as long as it lives', () => {
+    const [first, second] = Array.from(document.querySelectorAll('img'));
+    const token = registerElement(first);
+
+    expect(registerElement(first)).toBe(token);
+    expect(registerElement(second)).not.toBe(token);
+    expect(resolveElement(token)).toBe(first);
+  });
+
+  it('stops resolving tokens of elements that left the page', () => {
+    const image = document.querySelector('img')!;
+    const token = registerElement(image);
+
+    image.remove();
+
+    expect(resolveElement(token)).toBeNull();
+    expect(resolveElement('el-unknown-1')).toBeNull();
+  });
+
+  it('finds elements by token first, then by selector', () => {
+    const [first, second] = Array.from(document.querySelectorAll('img'));
+
+    expect(findElement(document, 'img[src="b.png"]', registerElement(first))).toBe(first);
+    expect(findElement(document, 'img[src="b.png"]', 'el-unknown-1')).toBe(second);
+    expect(findElement(document, 'img[src=', undefined)).toBeNull();
+  });
+
+  it('lets scans point at elements without changing the page', () => {
+    const before = document.body.innerHTML;
+
+    const { violations } = runAudit(document, { include: ['image-alt-text'] });
+
+    expect(violations).toHaveLength(2);
+    expect(violations.map(violation => findElement(document, violation.element, violation.elementRef)))
+      .toEqual(Array.from(document.querySelectorAll('img')));
+    expect(document.body.innerHTML).toBe(before);
+    expect(document.querySelector('[data-violation]')).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Element registry
+ * Lets violations point back at their elements without touching the page: each element gets a token
+ * that maps to a weak reference, so scanning never adds attributes and removed elements can still be collected
+ */
+
+import { querySelectorDeep } from './index';
+
+// Tokens are only meaningful in the page context that issued them; the prefix keeps a token
+// from a previous page load (or a reinjected content script) from resolving to an unrelated element
+const tokenPrefix = `el-${Math.random().toString(36).slice(2, 8)}`;
+
+const references = new Map<string, WeakRef<Element>>();
+const tokens = new WeakMap<Element, string>();
+const cleanup = new FinalizationRegistry<string>(token => references.delete(token));
+let nextToken = 1;
+
+/**
+ * Get the token for an element, registering it on first use.
+ * The same element keeps the same token across scans.
+ */
+export function registerElement(element: Element): string {
+  const existing = tokens.get(element);
+  if (existing) return existing;
+
+  const token = `${tokenPrefix}-${nextToken++}`;
+  references.set(token, new WeakRef(element));
+  tokens.set(element, token);
+  cleanup.register(element, token);
+
+  return token;
+}
+
+/**
+ * Get the element behind a token, if it is still in the page
+ */
+export function resolveElement(token: string): Element | null {
+  const element = references.get(token)?.deref();
+  return element && element.isConnected ? element : null;
+}
+
+/**
+ * Find a violation's element: through its registry token when it was found in this page context,
+ * otherwise through its selector (e.g. for results stored before a reload)
+ */
+export function findElement(root: Element | Document, selector: string, elementRef?: string): Element | null {
+  const registered = elementRef ? resolveElement(elementRef) : null;
+  if (registered) return registered;
+
+  try {
+    return querySelectorDeep(root, selector);
+  } catch (e) {
+    return null; // Selectors from other tools or older versions may not parse
+  }
+}
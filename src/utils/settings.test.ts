@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getRegisteredRules } from '../rules/registry';
+import { ExtensionSettings, Severity, Violation, WCAGLevel, WCAGPrinciple } from '../types';
+import { DEFAULT_SETTINGS, getEnabledRules, getShownViolations, normalizeSettings } from './settings';
+
+describe('normalizeSettings', () => {
+  it('fills in defaults for missing settings', () => {
+    expect(normalizeSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(normalizeSettings({ autoScan: true })).toEqual({ ...DEFAULT_SETTINGS, autoScan: true });
+  });
+
+  it('replaces values of the wrong shape', () => {
+    const stored = { targetLevel: 'AAAA', disabledRules: 'link-purpose', ruleOptions: [] } as unknown as Partial<ExtensionSettings>;
+
+    expect(normalizeSettings(stored)).toEqual(DEFAULT_SETTINGS);
+  });
+});
+
+describe('getEnabledRules', () => {
+  const rules = getRegisteredRules();
+
+  it('leaves out disabled rules', () => {
+    const enabled = getEnabledRules(rules, { ...DEFAULT_SETTINGS, disabledRules: ['link-purpose'] }).map(rule => rule.id);
+
+    expect(enabled).not.toContain('link-purpose');
+    expect(enabled).toContain('image-alt-text');
+  });
+
+  it('leaves out rules above the target level', () => {
+    const levels = (targetLevel: WCAGLevel) => new Set(getEnabledRules(rules, { ...DEFAULT_SETTINGS, targetLevel }).map(rule => rule.level));
+
+    expect(levels(WCAGLevel.A)).toEqual(new Set([WCAGLevel.A]));
+    expect(levels(WCAGLevel.AA)).toEqual(new Set([WCAGLevel.A, WCAGLevel.AA]));
+  });
+});
+
+describe('getShownViolations', () => {
+  const violations = [Severity.SERIOUS, Severity.MINOR].map((severity): Violation => ({
+    id: `${severity}-0`,
+    ruleId: 'link-purpose',
+    principle: WCAGPrinciple.OPERABLE,
+    wcagCriteria: '2.4.4',
+    level: WCAGLevel.A,
+    severity,
+    message: 'Link has vague text',
+    description: 'Link has vague text',
+    element: 'a',
+    htmlSnippet: '<a href="/more">more</a>',
+  }));
+
+  it('leaves out minor issues when they are turned off', () => {
+    expect(getShownViolations(violations, DEFAULT_SETTINGS)).toEqual(violations);
+    expect(getShownViolations(violations, { ...DEFAULT_SETTINGS, showMinorIssues: false }).map(v => v.severity)).toEqual([Severity.SERIOUS]);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Extension settings helpers
+ * Settings are stored under the `settings` key and edited on the options page
+ */
+
+import { AccessibilityRule, ExtensionSettings, Severity, Violation, WCAGLevel } from '../types';
+import { isWithinLevel } from '../engine';
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  autoScan: false,
+  showMinorIssues: true,
+  targetLevel: WCAGLevel.AA,
+  disabledRules: [],
+  ruleOptions: {},
+};
+
+/**
+ * Fill in defaults for settings saved by older versions (or not saved at all)
+ */
+export function normalizeSettings(stored?: Partial<ExtensionSettings>): ExtensionSettings {
+  const settings = { ...DEFAULT_SETTINGS, ...(stored || {}) };
+
+  if (!Object.values(WCAGLevel).includes(settings.targetLevel)) {
+    settings.targetLevel = DEFAULT_SETTINGS.targetLevel;
+  }
+  if (!Array.isArray(settings.disabledRules)) {
+    settings.disabledRules = [];
+  }
+  if (!settings.ruleOptions || typeof settings.ruleOptions !== 'object' || Array.isArray(settings.ruleOptions)) {
+    settings.ruleOptions = {};
+  }
+
+  return settings;
+}
+
+/**
+ * Pick the rules the settings enable, leaving out disabled rules and rules above the target level
+ */
+export function getEnabledRules(rules: AccessibilityRule[], settings: ExtensionSettings): AccessibilityRule[] {
+  return rules.filter(rule =>
+    !settings.disabledRules.includes(rule.id) && isWithinLevel(rule.level, settings.targetLevel)
+  );
+}
+
+/**
+ * Get the violations the settings allow the popup to show, and the badge to count
+ */
+export function getShownViolations(violations: Violation[], settings: ExtensionSettings): Violation[] {
+  if (settings.showMinorIssues) return violations;
+  return violations.filter(v => v.severity !== Severity.MINOR);
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { runAudit } from '../engine';
+import { Suppression } from '../types';
+import { applySuppressions, createBaseline, getSuppressionOrigin, mergeSuppressions, parseBaseline } from './suppressions';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+function suppression(fingerprint: string, changes: Partial<Suppression> = {}): Suppression {
+  return {
+    fingerprint,
+    ruleId: 'link-purpose',
+    message: 'Link has vague text',
+    status: 'accepted',
+    reason: 'Legacy footer',
+    createdAt: NOW,
+    ...changes,
+  };
+}
+
+describe('applySuppressions', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <main>
+        <a href="/terms">click here</a>
+        <a href="/privacy">read more</a>
+      </main>
+    `;
+  });
+
+  it('suppresses violations by fingerprint across scans', () => {
+    const [first] = runAudit(document, { include: ['link-purpose'] }).violations;
+    const suppressions = [suppression(first.fingerprint!)];
+
+    // An unrelated change and a fresh scan still match the suppression
+    document.querySelector('main')!.insertAdjacentHTML('afterbegin', '<h1>Legal</h1>');
+    const { active, suppressed } = applySuppressions(runAudit(document, { include: ['link-purpose'] }).violations, suppressions, NOW);
+
+    expect(suppressed.map(entry => entry.violation.fingerprint)).toEqual([first.fingerprint]);
+    expect(suppressed[0].suppression.reason).toBe('Legacy footer');
+    expect(active).toHaveLength(1);
+    expect(active[0].fingerprint).not.toBe(first.fingerprint);
+  });
+
+  it('reports violations again once their suppression expires', () => {
+    const violations = runAudit(document, { include: ['link-purpose'] }).violations;
+    const suppressions = [suppression(violations[0].fingerprint!, { expiresAt: NOW + 1000 })];
+
+    expect(applySuppressions(violations, suppressions, NOW).suppressed).toHaveLength(1);
+    expect(applySuppressions(violations, suppressions, NOW + 1000).suppressed).toHaveLength(0);
+  });
+});
+
+describe('baselines', () => {
+  it('round-trip through createBaseline and parseBaseline', () => {
+    const suppressions = [suppression('a'), suppression('b', { status: 'wont-fix', expiresAt: NOW + 1 })];
+    const baseline = parseBaseline(JSON.stringify(createBaseline('https://example.com', suppressions)));
+
+    expect(baseline.origin).toBe('https://example.com');
+    expect(baseline.suppressions).toEqual(suppressions);
+  });
+
+  it('reject files that are not baselines', () => {
+    expect(() => parseBaseline('not json')).toThrow('Baseline is not valid JSON');
+    expect(() => parseBaseline('[]')).toThrow('Not an All-Inclusive baseline');
+    expect(() => parseBaseline(JSON.stringify({ version: 2, origin: 'x', suppressions: [] }))).toThrow('Not an All-Inclusive baseline');
+  });
+
+  it('reject malformed suppressions, naming the entry', () => {
+    const withSuppressions = (suppressions: unknown[]) => JSON.stringify({ version: 1, origin: 'x', suppressions });
+
+    expect(() => parseBaseline(withSuppressions([{ ruleId: 'link-purpose', status: 'accepted' }])))
+      .toThrow('Suppression 1 is missing a fingerprint or rule ID');
+    expect(() => parseBaseline(withSuppressions([suppression('a'), { ...suppression('b'), status: 'toString' }])))
+      .toThrow('Suppression 2 has an unknown status: toString');
+    expect(() => parseBaseline(withSuppressions([{ ...suppression('a'), expiresAt: 'tomorrow' }])))
+      .toThrow('Suppression 1 has an invalid expiry date');
+  });
+
+  it('merge with imported decisions winning', () => {
+    const merged = mergeSuppressions(
+      [suppression('a'), suppression('b')],
+      [suppression('b', { status: 'false-positive' }), suppression('c')]
+    );
+
+    expect(merged.map(entry => `${entry.fingerprint}:${entry.status}`)).toEqual(['a:accepted', 'b:false-positive', 'c:accepted']);
+  });
+});
+
+describe('getSuppressionOrigin', () => {
+  it('groups pages by origin, and local files by path', () => {
+    expect(getSuppressionOrigin('https://example.com/checkout?step=2#pay')).toBe('https://example.com');
+    expect(getSuppressionOrigin('file:///home/me/site/index.html?x=1')).toBe('file:///home/me/site/index.html');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Baseline and suppression helpers
+ * Known or accepted violations are suppressed by fingerprint, per origin, so new issues stand out
+ */
+
+import { Baseline, Suppression, SuppressionStatus, Violation } from '../types';
+
+/**
+ * Suppression statuses with their display labels
+ */
+export const SUPPRESSION_STATUSES: Record<SuppressionStatus, string> = {
+  'accepted': 'Accepted',
+  'wont-fix': "Won't fix",
+  'false-positive': 'False positive',
+};
+
+/**
+ * Suppressions grouped by origin
+ */
+export type SuppressionStore = Record<string, Suppression[]>;
+
+/**
+ * A violation hidden by a suppression
+ */
+export interface SuppressedViolation {
+  violation: Violation;
+  suppression: Suppression;
+}
+
+/**
+ * Get the origin that suppressions for a URL are stored under
+ */
+export function getSuppressionOrigin(url: string): string {
+  try {
+    const { origin } = new URL(url);
+    // Opaque origins (file:, data:) all serialize as "null"
+    return origin === 'null' ? url.split(/[?#]/)[0] : origin;
+  } catch (e) {
+    return url;
+  }
+}
+
+/**
+ * Check if a suppression still applies
+ */
+export function isSuppressionActive(suppression: Suppression, now: number = Date.now()): boolean {
+  return suppression.expiresAt === undefined || suppression.expiresAt > now;
+}
+
+/**
+ * Split violations into the ones to report and the ones covered by an active suppression
+ */
+export function applySuppressions(
+  violations: Violation[],
+  suppressions: Suppression[],
+  now: number = Date.now()
+): { active: Violation[]; suppressed: SuppressedViolation[] } {
+  const byFingerprint = new Map(
+    suppressions.filter(suppression => isSuppressionActive(suppression, now)).map(suppression => [suppression.fingerprint, suppression])
+  );
+
+  const active: Violation[] = [];
+  const suppressed: SuppressedViolation[] = [];
+
+  violations.forEach(violation => {
+    const suppression = violation.fingerprint ? byFingerprint.get(violation.fingerprint) : undefined;
+    if (suppression) {
+      suppressed.push({ violation, suppression });
+    } else {
+      active.push(violation);
+    }
+  });
+
+  return { active, suppressed };
+}
+
+/**
+ * Add or replace the suppression for a fingerprint
+ */
+export function addSuppression(suppressions: Suppression[], suppression: Suppression): Suppression[] {
+  return [...suppressions.filter(existing => existing.fingerprint !== suppression.fingerprint), suppression];
+}
+
+/**
+ * Remove the suppression for a fingerprint
+ */
+export function removeSuppression(suppressions: Suppression[], fingerprint: string): Suppression[] {
+  return suppressions.filter(existing => existing.fingerprint !== fingerprint);
+}
+
+/**
+ * Merge imported suppressions into existing ones; imported decisions win for the same fingerprint
+ */
+export function mergeSuppressions(existing: Suppression[], imported: Suppression[]): Suppression[] {
+  return imported.reduce(addSuppression, existing);
+}
+
+/**
+ * Build a shareable baseline for an origin
+ */
+export function createBaseline(origin: string, suppressions: Suppression[]): Baseline {
+  return {
+    version: 1,
+    origin,
+    exportedAt: new Date().toISOString(),
+    suppressions,
+  };
+}
+
+/**
+ * Parse and validate a baseline file
+ */
+export function parseBaseline(json: string): Baseline {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Baseline is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.version !== 1 || typeof data.origin !== 'string' || !Array.isArray(data.suppressions)) {
+    throw new Error('Not an All-Inclusive baseline (expected version 1 with an origin and suppressions)');
+  }
+
+  const suppressions = data.suppressions.map((suppression: unknown, index: number): Suppression => {
+    if (!isRecord(suppression) || typeof suppression.fingerprint !== 'string' || typeof suppression.ruleId !== 'string') {
+      throw new Error(`Suppression ${index + 1} is missing a fingerprint or rule ID`);
+    }
+    if (!isSuppressionStatus(suppression.status)) {
+      throw new Error(`Suppression ${index + 1} has an unknown status: ${String(suppression.status)}`);
+    }
+    if (suppression.expiresAt !== undefined && typeof suppression.expiresAt !== 'number') {
+      throw new Error(`Suppression ${index + 1} has an invalid expiry date`);
+    }
+
+    return {
+      fingerprint: suppression.fingerprint,
+      ruleId: suppression.ruleId,
+      message: typeof suppression.message === 'string' ? suppression.message : '',
+      status: suppression.status,
+      reason: typeof suppression.reason === 'string' ? suppression.reason : '',
+      createdAt: typeof suppression.createdAt === 'number' ? suppression.createdAt : Date.now(),
+      ...(typeof suppression.expiresAt === 'number' ? { expiresAt: suppression.expiresAt } : {}),
+    };
+  });
+
+  return {
+    version: 1,
+    origin: data.origin,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    suppressions,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSuppressionStatus(value: unknown): value is SuppressionStatus {
+  return typeof value === 'string' && Object.keys(SUPPRESSION_STATUSES).includes(value);
+}
@@ -20,6 +20,8 @@ import RequiredFieldsTests from './components/understandable/RequiredFieldsTests
 // Robust components
 import ValidHtmlTests from './components/robust/ValidHtmlTests';
 import AriaUsageTests from './components/robust/AriaUsageTests';
+import AriaConformanceTests from './components/robust/AriaConformanceTests';
+import IdReferencesTests from './components/robust/IdReferencesTests';
 
 const App: React.FC = () => {
   const filter = process.env.FILTER || 'all';
@@ -49,8 +51,8 @@ const App: React.FC = () => {
     },
     robust: {
       name: 'Robust',
-      components: [ValidHtmlTests, AriaUsageTests],
-      descriptions: ['Valid HTML', 'ARIA usage'],
+      components: [ValidHtmlTests, AriaUsageTests, AriaConformanceTests, IdReferencesTests],
+      descriptions: ['Valid HTML', 'ARIA usage', 'ARIA roles and attributes', 'ID references'],
     },
   };
 
@@ -0,0 +1,48 @@
+import React from 'react';
+
+interface AriaConformanceTestsProps {
+  ruleNumber?: number;
+}
+
+const AriaConformanceTests: React.FC<AriaConformanceTestsProps> = ({ ruleNumber }) => {
+  return (
+    <div className="test-section">
+      <h3>{ruleNumber ? `${ruleNumber}. ` : ''}ARIA Roles and Attributes Violations</h3>
+
+      <div className="violation">
+        <span className="violation-label">Unknown and abstract roles:</span>
+        <div role="buton">Misspelled button role</div>
+        <div role="widget">Abstract widget role</div>
+      </div>
+
+      <div className="violation">
+        <span className="violation-label">List without list items:</span>
+        <div role="list">
+          <div>Item one</div>
+          <div>Item two</div>
+        </div>
+      </div>
+
+      <div className="violation">
+        <span className="violation-label">Tab outside a tablist:</span>
+        <div role="tab">Orphan tab</div>
+      </div>
+
+      <div className="violation">
+        <span className="violation-label">Checkbox without aria-checked:</span>
+        <div role="checkbox" tabIndex={0}>Subscribe</div>
+      </div>
+
+      <div className="violation">
+        <span className="violation-label">Invalid and unsupported attributes:</span>
+        <button aria-expanded={'yes' as any}>Invalid aria-expanded value</button>
+        {' '}
+        <a href="#aria" aria-pressed="true">Link with aria-pressed</a>
+        {' '}
+        <span aria-lable="Typo">Misspelled aria-label</span>
+      </div>
+    </div>
+  );
+};
+
+export default AriaConformanceTests;
@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface IdReferencesTestsProps {
+  ruleNumber?: number;
+}
+
+const IdReferencesTests: React.FC<IdReferencesTestsProps> = ({ ruleNumber }) => {
+  return (
+    <div className="test-section">
+      <h3>{ruleNumber ? `${ruleNumber}. ` : ''}ID Reference Violations</h3>
+
+      <div className="violation">
+        <span className="violation-label">aria-labelledby pointing at a missing ID:</span>
+        <button aria-labelledby="idref-missing-label">Save</button>
+      </div>
+
+      <div className="violation">
+        <span className="violation-label">label[for] pointing at a missing input:</span>
+        <label htmlFor="idref-missing-input">Email</label>
+      </div>
+
+      <div className="violation">
+        <span className="violation-label">aria-describedby pointing at a duplicated ID:</span>
+        <input type="text" aria-label="Password" aria-describedby="idref-hint" />
+        <span id="idref-hint">At least 8 characters</span>
+        <span id="idref-hint">Include a number</span>
+      </div>
+
+      <div className="violation">
+        <span className="violation-label">aria-labelledby pointing at an empty hidden element:</span>
+        <span id="idref-empty" hidden></span>
+        <button aria-labelledby="idref-empty">Open</button>
+      </div>
+    </div>
+  );
+};
+
+export default IdReferencesTests;
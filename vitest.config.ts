@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+import { version } from './package.json';
+
+export default defineConfig({
+  define: {
+    __VERSION__: JSON.stringify(version), // As injected by webpack.config.js
+  },
+  test: {
+    environment: 'jsdom', // The same DOM implementation the CLI scans with
+    include: ['src/**/*.test.ts'],
+  },
+});
@@ -1,19 +1,35 @@
 const path = require('path');
 const CopyWebpackPlugin = require('copy-webpack-plugin');
 const MiniCssExtractPlugin = require('mini-css-extract-plugin');
+const webpack = require('webpack');
+const { version } = require('./package.json');
 
-module.exports = {
+const resolveConfig = {
+  extensions: ['.tsx', '.ts', '.js'],
+  alias: {
+    '@': path.resolve(__dirname, 'src'),
+  },
+};
+
+// package.json is the single source of the version shown in reports and the manifest
+const defineVersion = () => new webpack.DefinePlugin({ __VERSION__: JSON.stringify(version) });
+
+const extensionConfig = {
+  name: 'extension',
   mode: 'development',
   devtool: 'inline-source-map',
   entry: {
     'popup/index': './src/popup/index.ts',
     'content/index': './src/content/index.ts',
     'background/index': './src/background/index.ts',
+    'options/index': './src/options/index.ts',
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
     filename: '[name].js',
-    clean: true,
+    clean: {
+      keep: /^(cli|lib)\//, // Built separately by the CLI and library configs
+    },
   },
   module: {
     rules: [
@@ -28,21 +44,29 @@ module.exports = {
       },
     ],
   },
-  resolve: {
-    extensions: ['.tsx', '.ts', '.js'],
-    alias: {
-      '@': path.resolve(__dirname, 'src'),
-    },
-  },
+  resolve: resolveConfig,
   plugins: [
+    defineVersion(),
     new MiniCssExtractPlugin({
       filename: '[name].css',
     }),
     new CopyWebpackPlugin({
       patterns: [
-        { from: 'manifest.json', to: 'manifest.json' },
+        {
+          from: 'manifest.json',
+          to: 'manifest.json',
+          transform: content => JSON.stringify({ ...JSON.parse(content.toString()), version }, null, 2),
+        },
         { from: 'src/popup/popup.html', to: 'popup/popup.html' },
+        // The side panel runs the popup page, marked so it can adapt its layout
+        {
+          from: 'src/popup/popup.html',
+          to: 'popup/sidepanel.html',
+          transform: content => content.toString().replace('<body>', '<body class="side-panel">'),
+        },
         { from: 'src/popup/styles.css', to: 'popup/styles.css' },
+        { from: 'src/options/options.html', to: 'options/options.html' },
+        { from: 'src/options/styles.css', to: 'options/styles.css' },
         { from: 'src/content/styles.css', to: 'content/styles.css' },
         { from: 'public', to: 'public' },
       ],
@@ -52,3 +76,73 @@ module.exports = {
     minimize: false, // Disable for debugging
   },
 };
+
+// Headless command-line auditor (runs in Node with jsdom)
+const cliConfig = {
+  name: 'cli',
+  mode: 'development',
+  target: 'node',
+  devtool: false,
+  entry: {
+    'cli/index': './src/cli/index.ts',
+  },
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: '[name].js',
+  },
+  externals: {
+    jsdom: 'commonjs jsdom',
+  },
+  module: {
+    rules: [
+      {
+        test: /\.tsx?$/,
+        use: 'ts-loader',
+        exclude: /node_modules/,
+      },
+    ],
+  },
+  resolve: resolveConfig,
+  plugins: [
+    defineVersion(),
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true, entryOnly: true }),
+  ],
+  optimization: {
+    minimize: false,
+  },
+};
+
+// Standalone scanning engine for Playwright, Jest and other tooling (UMD, no chrome.* APIs)
+const libraryConfig = {
+  name: 'library',
+  mode: 'development',
+  devtool: false,
+  entry: {
+    'lib/index': './src/lib/index.ts',
+  },
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: '[name].js',
+    library: {
+      name: 'AllInclusive',
+      type: 'umd',
+    },
+    globalObject: 'this',
+  },
+  module: {
+    rules: [
+      {
+        test: /\.tsx?$/,
+        use: 'ts-loader',
+        exclude: /node_modules/,
+      },
+    ],
+  },
+  resolve: resolveConfig,
+  plugins: [defineVersion()],
+  optimization: {
+    minimize: false,
+  },
+};
+
+module.exports = [extensionConfig, cliConfig, libraryConfig];